@@ -0,0 +1,106 @@
+/**
+ * Composable for chapters and cue points stored in a JSON field of the item
+ */
+import { computed, onUnmounted, ref, watch, type Ref } from 'vue';
+import { normalizeChapters, parseChaptersVtt, serializeChaptersVtt, type Chapter } from '../utils';
+
+interface ChaptersOptions {
+	values: Ref<Record<string, unknown>>;
+	chaptersFieldName?: string;
+	videoElement: Ref<HTMLVideoElement | null>;
+	setFieldValue: (field: string, value: unknown) => void;
+}
+
+export function useChapters(options: ChaptersOptions) {
+	const fieldName = options.chaptersFieldName || '';
+	const hasChaptersField = !!fieldName;
+	const currentTime = ref(0);
+
+	const chapters = computed<Chapter[]>(() => fieldName ? normalizeChapters(options.values.value?.[fieldName]) : []);
+
+	// Last chapter that started before the playhead
+	const currentChapter = computed(() => {
+		let index = -1;
+		chapters.value.forEach((chapter, chapterIndex) => {
+			if (chapter.start <= currentTime.value) index = chapterIndex;
+		});
+		return index;
+	});
+
+	// Changes go through the item values, so they are saved with the item
+	const saveChapters = (updatedChapters: Chapter[]) => {
+		if (!fieldName) return;
+		options.setFieldValue(fieldName, normalizeChapters(updatedChapters));
+	};
+
+	const addChapter = (title?: string) => {
+		const start = Math.round((options.videoElement.value?.currentTime ?? 0) * 1000) / 1000;
+		// One chapter per position, adding at an existing start renames it
+		const existingIndex = chapters.value.findIndex((chapter) => chapter.start === start);
+		if (existingIndex >= 0) {
+			renameChapter(existingIndex, title || chapters.value[existingIndex].title);
+			return;
+		}
+		saveChapters([...chapters.value, { start, title: title || `Chapter ${chapters.value.length + 1}` }]);
+	};
+
+	const renameChapter = (index: number, title: string) => {
+		if (!chapters.value[index]) return;
+		saveChapters(chapters.value.map((chapter, chapterIndex) => chapterIndex === index ? { ...chapter, title } : chapter));
+	};
+
+	const deleteChapter = (index: number) => {
+		saveChapters(chapters.value.filter((_, chapterIndex) => chapterIndex !== index));
+	};
+
+	const seekToChapter = (index: number) => {
+		const chapter = chapters.value[index];
+		const videoEl = options.videoElement.value;
+		if (!chapter || !videoEl) return;
+		videoEl.currentTime = chapter.start;
+		currentTime.value = chapter.start;
+	};
+
+	// Imported chapters replace the current ones
+	const importChapters = (vtt: string): number => {
+		const importedChapters = parseChaptersVtt(vtt);
+		if (importedChapters.length === 0) {
+			throw new Error('The file contains no WebVTT chapters');
+		}
+		saveChapters(importedChapters);
+		return importedChapters.length;
+	};
+
+	const exportChapters = (): string => {
+		return serializeChaptersVtt(chapters.value, options.videoElement.value?.duration ?? NaN);
+	};
+
+	const updateTime = () => {
+		currentTime.value = options.videoElement.value?.currentTime ?? 0;
+	};
+
+	// The video element is replaced when switching between input and player
+	watch(options.videoElement, (videoEl, previousVideoEl) => {
+		previousVideoEl?.removeEventListener('timeupdate', updateTime);
+		if (hasChaptersField) {
+			videoEl?.addEventListener('timeupdate', updateTime);
+		}
+		updateTime();
+	}, { immediate: true });
+
+	onUnmounted(() => {
+		options.videoElement.value?.removeEventListener('timeupdate', updateTime);
+	});
+
+	return {
+		hasChaptersField,
+		chapters,
+		currentChapter,
+		addChapter,
+		renameChapter,
+		deleteChapter,
+		seekToChapter,
+		importChapters,
+		exportChapters
+	};
+}
@@ -0,0 +1,161 @@
+/**
+ * Composable for clip in/out points stored in numeric fields of the item - playback stays within the clip
+ */
+import { computed, onUnmounted, ref, watch, type Ref } from 'vue';
+import { useFieldValue } from './useFieldValue';
+
+interface ClipOptions {
+	values: Ref<Record<string, unknown>>;
+	collection?: string;
+	clipStartFieldName?: string;
+	clipEndFieldName?: string;
+	videoElement: Ref<HTMLVideoElement | null>;
+	playerUrl: Ref<string | null>;
+	setFieldValue: (field: string, value: unknown) => void;
+}
+
+// Positions this close to the in/out point count as at the point - timeupdate fires about every 250ms
+const CLIP_TOLERANCE = 0.25;
+
+/**
+ * Format seconds for a Media Fragments URI, e.g. 12.5 (npt in seconds without trailing zeros)
+ */
+function formatFragmentTime(seconds: number): string {
+	return String(Math.round(seconds * 1000) / 1000);
+}
+
+export function useClip(options: ClipOptions) {
+	const { toNumberFieldValue } = useFieldValue(options.collection);
+
+	const startFieldName = options.clipStartFieldName || '';
+	const endFieldName = options.clipEndFieldName || '';
+	const hasClipFields = !!(startFieldName || endFieldName);
+
+	// Play the whole video while setting new in/out points
+	const isClipConstrained = ref(true);
+	const isClipLooping = ref(false);
+
+	const readTime = (fieldName: string): number | null => {
+		if (!fieldName) return null;
+		const value = options.values.value?.[fieldName];
+		if (value === null || value === undefined || value === '') return null;
+		const seconds = Number(value);
+		return Number.isFinite(seconds) && seconds >= 0 ? seconds : null;
+	};
+
+	const clipStart = computed(() => readTime(startFieldName));
+	const clipEnd = computed(() => {
+		const end = readTime(endFieldName);
+		// An out point before the in point is ignored
+		return end !== null && end > (clipStart.value ?? 0) ? end : null;
+	});
+	const hasClip = computed(() => clipStart.value !== null || clipEnd.value !== null);
+
+	// Media Fragments URI of the player link, e.g. https://example.com/video.m3u8#t=10,20
+	const mediaFragmentUrl = computed(() => {
+		const url = options.playerUrl.value;
+		if (!url || !hasClip.value) return null;
+		const start = clipStart.value !== null ? formatFragmentTime(clipStart.value) : '';
+		const end = clipEnd.value !== null ? `,${formatFragmentTime(clipEnd.value)}` : '';
+		return `${url.split('#')[0]}#t=${start}${end}`;
+	});
+
+	const setClipIn = () => {
+		const videoEl = options.videoElement.value;
+		if (!videoEl || !startFieldName) return;
+		const start = toNumberFieldValue(startFieldName, videoEl.currentTime);
+		options.setFieldValue(startFieldName, start);
+		// Keep the clip valid, an out point before the new in point is cleared
+		const end = readTime(endFieldName);
+		if (endFieldName && end !== null && end <= start) {
+			options.setFieldValue(endFieldName, null);
+		}
+	};
+
+	const setClipOut = () => {
+		const videoEl = options.videoElement.value;
+		if (!videoEl || !endFieldName) return;
+		const end = toNumberFieldValue(endFieldName, videoEl.currentTime);
+		options.setFieldValue(endFieldName, end);
+		const start = readTime(startFieldName);
+		if (startFieldName && start !== null && start >= end) {
+			options.setFieldValue(startFieldName, null);
+		}
+	};
+
+	const clearClip = () => {
+		if (startFieldName) options.setFieldValue(startFieldName, null);
+		if (endFieldName) options.setFieldValue(endFieldName, null);
+	};
+
+	const seekToClipStart = () => {
+		const videoEl = options.videoElement.value;
+		if (!videoEl) return;
+		videoEl.currentTime = clipStart.value ?? 0;
+	};
+
+	const constrainPlayback = () => {
+		const videoEl = options.videoElement.value;
+		if (!videoEl || !hasClip.value || !isClipConstrained.value) return;
+		const start = clipStart.value ?? 0;
+		const end = clipEnd.value;
+
+		if (end !== null && videoEl.currentTime >= end) {
+			if (isClipLooping.value && !videoEl.paused) {
+				videoEl.currentTime = start;
+			} else {
+				videoEl.pause();
+				if (videoEl.currentTime > end) videoEl.currentTime = end;
+			}
+		} else if (videoEl.currentTime < start - CLIP_TOLERANCE) {
+			videoEl.currentTime = start;
+		}
+	};
+
+	// Playing again at the out point starts the clip over
+	const onPlay = () => {
+		const videoEl = options.videoElement.value;
+		if (!videoEl || !hasClip.value || !isClipConstrained.value) return;
+		if (clipEnd.value !== null && videoEl.currentTime >= clipEnd.value - CLIP_TOLERANCE) {
+			seekToClipStart();
+		}
+	};
+
+	const videoEvents: Array<[string, () => void]> = [
+		['timeupdate', constrainPlayback],
+		['seeked', constrainPlayback],
+		['loadedmetadata', constrainPlayback],
+		['play', onPlay]
+	];
+
+	// The video element is replaced when switching between input and player
+	watch(options.videoElement, (videoEl, previousVideoEl) => {
+		videoEvents.forEach(([event, handler]) => previousVideoEl?.removeEventListener(event, handler));
+		if (!hasClipFields) return;
+		videoEvents.forEach(([event, handler]) => videoEl?.addEventListener(event, handler));
+		constrainPlayback();
+	}, { immediate: true });
+
+	// Jump into the clip when it changes or the constraint is turned back on
+	watch([clipStart, clipEnd, isClipConstrained], () => constrainPlayback());
+
+	onUnmounted(() => {
+		videoEvents.forEach(([event, handler]) => options.videoElement.value?.removeEventListener(event, handler));
+	});
+
+	return {
+		hasClipFields,
+		canSetClipIn: !!startFieldName,
+		canSetClipOut: !!endFieldName,
+		clipStart,
+		clipEnd,
+		hasClip,
+		isClipConstrained,
+		isClipLooping,
+		mediaFragmentUrl,
+		setClipIn,
+		setClipOut,
+		clearClip,
+		seekToClipStart
+	};
+}
@@ -0,0 +1,44 @@
+/**
+ * Composable for the DRM configuration of encrypted streams (Widevine, PlayReady, ClearKey)
+ */
+import { normalizeApiBaseUrl } from '../utils';
+import { normalizeClearKeys, normalizeKeySystems, normalizeLicenseHeaders, type DrmConfig } from '../shared/drm';
+
+interface DrmOptions {
+	licenseUrl?: string;
+	licenseHeaders?: unknown;
+	clearKeys?: unknown;
+	keySystems?: unknown;
+	collection?: string;
+	field?: string;
+	api: any;
+}
+
+/**
+ * Get the DRM configuration of the player engines, null when neither a license server nor ClearKey keys are configured
+ */
+export function useDrm(options: DrmOptions) {
+	const licenseUrl = (options.licenseUrl || '').trim() || null;
+	const hasClearKeys = normalizeClearKeys(options.clearKeys).length > 0;
+
+	// The keys stay in the field options, the license stub of the endpoint looks them up by collection and field
+	const getClearKeyLicenseUrl = (): string | null => {
+		if (!hasClearKeys || !options.collection || !options.field) return null;
+		const baseUrl = normalizeApiBaseUrl(options.api).replace(/\/+$/, '');
+		const query = new URLSearchParams({ collection: options.collection, field: options.field });
+		return `${baseUrl}/video-player/clearkey?${query.toString()}`;
+	};
+
+	const drm: DrmConfig | null = licenseUrl || hasClearKeys
+		? {
+			keySystems: normalizeKeySystems(options.keySystems),
+			licenseUrl,
+			clearKeyLicenseUrl: getClearKeyLicenseUrl(),
+			headers: normalizeLicenseHeaders(options.licenseHeaders)
+		}
+		: null;
+
+	return {
+		drm
+	};
+}
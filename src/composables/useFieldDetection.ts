@@ -13,7 +13,8 @@ export function useFieldDetection(
 	streamLinkFieldName: ComputedRef<string>,
 	getStreamUrl: (streamLink: string) => string | null,
 	apiBaseUrl: ComputedRef<string>,
-	values: any
+	values: any,
+	getThumbnailUrl?: (streamLink: string | null | undefined) => string | null
 ) {
 	// Detect if this is a string field (not a file field)
 	const isStringField = computed(() => {
@@ -183,7 +184,9 @@ export function useFieldDetection(
 		// Get the configured poster image field name
 		const fieldName = posterImageFieldName.value;
 		if (!fieldName) {
-			return null;
+			// Without poster field, use the thumbnail of the provider video (null without provider)
+			const streamLink = isStringField.value ? props.value : streamLinkFieldName.value ? fileData.value?.[streamLinkFieldName.value] : null;
+			return getThumbnailUrl?.(streamLink) ?? null;
 		}
 		
 		// Try to get poster image field from the collection item using injected values
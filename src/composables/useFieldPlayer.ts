@@ -0,0 +1,76 @@
+/**
+ * Composable for players outside the interface (display, layout, panel) - stream links, tokens, format and DRM
+ * are taken from the interface options of the field, like the interface itself does with its attrs
+ */
+import type { MaybeRef } from 'vue';
+import type { StreamFormatOption } from '../engines';
+import { useStreamUrl } from './useStreamUrl';
+import { useTokenRefresh } from './useTokenRefresh';
+import { useDrm } from './useDrm';
+import { usePlayerEngine } from './usePlayerEngine';
+
+interface FieldPlayerOptions {
+	api: any;
+	// Interface options of the field (meta.options), read once
+	fieldOptions: Record<string, any> | null | undefined;
+	collection: string;
+	field: string;
+	primaryKey?: MaybeRef<string | number | null | undefined>;
+}
+
+export function useFieldPlayer(options: FieldPlayerOptions) {
+	const fieldOptions = options.fieldOptions || {};
+	const streamFormatOption = (fieldOptions.stream_format as StreamFormatOption | undefined) ?? null;
+
+	const { getStreamUrl, refreshStreamUrl, getUrlSignature, getThumbnailUrl, signOnServer, apiBaseUrl } = useStreamUrl({
+		api: options.api,
+		hostUrl: fieldOptions.host_url,
+		urlSchema: fieldOptions.url_schema,
+		streamSecret: fieldOptions.stream_secret,
+		includeIp: fieldOptions.include_ip,
+		expiresInMinutes: fieldOptions.expires_in_minutes,
+		tokenAlgorithm: fieldOptions.token_algorithm,
+		tokenKeyId: fieldOptions.token_key_id,
+		tokenAcl: fieldOptions.token_acl,
+		tokenStartOffset: fieldOptions.token_start_offset,
+		tokenName: fieldOptions.token_name,
+		signOnServer: fieldOptions.sign_on_server,
+		provider: fieldOptions.provider,
+		streamFormat: streamFormatOption,
+		collection: options.collection,
+		field: options.field,
+		primaryKey: options.primaryKey
+	});
+	const tokenRefresh = useTokenRefresh({
+		refreshStreamUrl,
+		getUrlSignature,
+		expiresInMinutes: fieldOptions.expires_in_minutes
+	});
+	const { drm } = useDrm({
+		api: options.api,
+		licenseUrl: fieldOptions.drm_license_url,
+		licenseHeaders: fieldOptions.drm_license_headers,
+		clearKeys: fieldOptions.drm_clearkeys,
+		keySystems: fieldOptions.drm_key_systems,
+		collection: options.collection,
+		field: options.field
+	});
+	const playerEngine = usePlayerEngine({ tokenRefresh, streamFormat: streamFormatOption, drm });
+
+	// Stream link of the item (or of its file) first, then the source file - null while the link is signed on the server
+	const getSourceUrl = (streamLink: string | null, fileId: string | null): string | null => {
+		if (streamLink) return getStreamUrl(streamLink);
+		if (!fileId) return null;
+		const baseUrl = apiBaseUrl.value.endsWith('/') ? apiBaseUrl.value.slice(0, -1) : apiBaseUrl.value;
+		return `${baseUrl}/assets/${fileId}`;
+	};
+
+	return {
+		...playerEngine,
+		streamFormatOption,
+		signOnServer,
+		apiBaseUrl,
+		getSourceUrl,
+		getThumbnailUrl
+	};
+}
@@ -0,0 +1,54 @@
+/**
+ * Composable for converting values written by the player (clip points, probed properties) to the type of their field
+ */
+import { useStores } from '@directus/extensions-sdk';
+
+const INTEGER_FIELD_TYPES: readonly string[] = ['integer', 'bigInteger'];
+const NUMBER_FIELD_TYPES: readonly string[] = [...INTEGER_FIELD_TYPES, 'float', 'decimal'];
+const LIST_FIELD_TYPES: readonly string[] = ['json', 'csv'];
+
+export function useFieldValue(collection: string | undefined) {
+	const { useFieldsStore } = useStores();
+	const fieldsStore = useFieldsStore();
+
+	// Undefined for fields that are not found, e.g. removed after the interface was configured
+	const getFieldType = (field: string): string | undefined => {
+		const fieldType: string | undefined = collection ? fieldsStore.getField(collection, field)?.type : undefined;
+		if (!fieldType) {
+			console.warn(`[FieldValue] Field "${field}" not found${collection ? ` in "${collection}"` : ''}`);
+		}
+		return fieldType;
+	};
+
+	// Integer fields get whole numbers, decimal and float fields three decimals (millisecond precision for seconds)
+	// Fields of unknown type get whole numbers, which every numeric field accepts
+	const toNumberValue = (fieldType: string | undefined, value: number): number => {
+		return !fieldType || INTEGER_FIELD_TYPES.includes(fieldType) ? Math.round(value) : Math.round(value * 1000) / 1000;
+	};
+
+	const toNumberFieldValue = (field: string, value: number): number => {
+		return toNumberValue(getFieldType(field), value);
+	};
+
+	// Convert a value to the type of its field, e.g. lists are joined for string fields
+	const toFieldValue = (field: string, value: unknown): unknown => {
+		const fieldType = getFieldType(field);
+		if (typeof value === 'number') {
+			return !fieldType || NUMBER_FIELD_TYPES.includes(fieldType) ? toNumberValue(fieldType, value) : String(value);
+		}
+		if (!fieldType) return value;
+		if (Array.isArray(value)) {
+			if (LIST_FIELD_TYPES.includes(fieldType)) return value;
+			return value.every((item) => typeof item === 'string') ? value.join(', ') : JSON.stringify(value);
+		}
+		if (typeof value === 'boolean' && fieldType !== 'boolean') {
+			return String(value);
+		}
+		return value;
+	};
+
+	return {
+		toNumberFieldValue,
+		toFieldValue
+	};
+}
@@ -0,0 +1,162 @@
+/**
+ * Composable for writing probed video properties (duration, renditions, codecs, languages) to fields of the item
+ */
+import { computed, onUnmounted, ref, watch, type Ref } from 'vue';
+import type { AudioTrack, QualityLevel, SubtitleTrack } from '../utils';
+import type { PlayerEngineKind } from '../engines';
+import { useFieldValue } from './useFieldValue';
+import { normalizeMetadataMappings, type VideoMetadataProperty, type VideoMetadataRendition } from '../shared/videoMetadata';
+
+interface MetadataAutofillOptions {
+	values: Ref<Record<string, unknown>>;
+	collection?: string;
+	metadataFields?: unknown;
+	disabled: Ref<boolean>;
+	videoElement: Ref<HTMLVideoElement | null>;
+	streamFormat: Ref<PlayerEngineKind | null>;
+	qualityLevels: Ref<QualityLevel[]>;
+	audioTracks: Ref<AudioTrack[]>;
+	subtitleTracks: Ref<SubtitleTrack[]>;
+	isLive: Ref<boolean>;
+	// False while a fallback source plays, its properties are not the ones of the stream link
+	isPrimarySource: Ref<boolean>;
+	setFieldValue: (field: string, value: unknown) => void;
+}
+
+type VideoMetadata = Partial<Record<VideoMetadataProperty, unknown>>;
+
+// Manifest, tracks and duration arrive in separate events, they are written together
+const AUTOFILL_DELAY = 1000;
+
+const unique = (items: Array<string | undefined>): string[] => {
+	return [...new Set(items.filter((item): item is string => !!item))];
+};
+
+export function useMetadataAutofill(options: MetadataAutofillOptions) {
+	const { toFieldValue } = useFieldValue(options.collection);
+
+	const mappings = normalizeMetadataMappings(options.metadataFields);
+	const hasMetadataFields = mappings.length > 0;
+	const duration = ref<number | null>(null);
+	const videoSize = ref<{ width: number; height: number } | null>(null);
+	let autofillTimeout: ReturnType<typeof setTimeout> | null = null;
+
+	// Probed properties, undefined while unknown
+	const metadata = computed<VideoMetadata>(() => {
+		const levels = options.qualityLevels.value;
+		const highestLevel = levels.reduce<QualityLevel | null>((highest, level) => {
+			return !highest || (level.height || 0) > (highest.height || 0) ? level : highest;
+		}, null);
+		// Progressive files have no ladder, the video element knows their size
+		const maxWidth = highestLevel?.width || videoSize.value?.width || undefined;
+		const maxHeight = highestLevel?.height || videoSize.value?.height || undefined;
+		const bitrates = levels.map((level) => level.bitrate || 0).filter((bitrate) => bitrate > 0);
+		const ladder: VideoMetadataRendition[] = levels.map((level) => ({
+			width: level.width,
+			height: level.height,
+			bitrate: level.bitrate,
+			videoCodec: level.videoCodec,
+			audioCodec: level.audioCodec
+		}));
+
+		// Track lists are only complete once the stream is loaded
+		const isLoaded = !!options.streamFormat.value && (duration.value !== null || levels.length > 0 || options.isLive.value);
+
+		return {
+			duration: duration.value ?? undefined,
+			max_width: maxWidth,
+			max_height: maxHeight,
+			resolution: maxWidth && maxHeight ? `${maxWidth}x${maxHeight}` : undefined,
+			max_bitrate: bitrates.length > 0 ? Math.max(...bitrates) : undefined,
+			video_codecs: levels.length > 0 ? unique(levels.map((level) => level.videoCodec)) : undefined,
+			audio_codecs: levels.length > 0 ? unique(levels.map((level) => level.audioCodec)) : undefined,
+			rendition_count: levels.length > 0 ? levels.length : undefined,
+			ladder: levels.length > 0 ? ladder : undefined,
+			audio_languages: isLoaded ? unique(options.audioTracks.value.map((track) => track.language)) : undefined,
+			subtitle_languages: isLoaded ? unique(options.subtitleTracks.value.map((track) => track.language)) : undefined,
+			format: isLoaded ? options.streamFormat.value : undefined,
+			is_live: isLoaded ? options.isLive.value : undefined
+		};
+	});
+
+	// JSON fields may return the keys of objects in another order than they were written
+	const toComparable = (value: unknown): unknown => {
+		if (Array.isArray(value)) return value.map(toComparable);
+		if (value && typeof value === 'object') {
+			return Object.fromEntries(Object.keys(value).sort().map((key) => [key, toComparable((value as Record<string, unknown>)[key])]));
+		}
+		return value ?? null;
+	};
+
+	const isSameValue = (current: unknown, next: unknown): boolean => {
+		if (typeof next === 'number' && current !== null && current !== '' && Number(current) === next) return true;
+		return JSON.stringify(toComparable(current)) === JSON.stringify(toComparable(next));
+	};
+
+	// Changes go through the item values, so they are saved with the item
+	const autofill = () => {
+		if (options.disabled.value || !options.isPrimarySource.value) return;
+		const probed = metadata.value;
+		mappings.forEach(({ property, field }) => {
+			const value = probed[property];
+			if (value === undefined) return;
+			const fieldValue = toFieldValue(field, value);
+			if (!isSameValue(options.values.value?.[field], fieldValue)) {
+				options.setFieldValue(field, fieldValue);
+			}
+		});
+	};
+
+	const cancelAutofill = () => {
+		if (autofillTimeout) clearTimeout(autofillTimeout);
+		autofillTimeout = null;
+	};
+
+	const scheduleAutofill = () => {
+		if (!hasMetadataFields || !options.isPrimarySource.value) return;
+		cancelAutofill();
+		autofillTimeout = setTimeout(() => {
+			autofillTimeout = null;
+			autofill();
+		}, AUTOFILL_DELAY);
+	};
+
+	const updateVideoProperties = () => {
+		const videoEl = options.videoElement.value;
+		const videoDuration = videoEl?.duration;
+		// Live streams have no fixed duration
+		duration.value = videoDuration && Number.isFinite(videoDuration) ? Math.round(videoDuration * 1000) / 1000 : null;
+		videoSize.value = videoEl?.videoWidth ? { width: videoEl.videoWidth, height: videoEl.videoHeight } : null;
+	};
+
+	const videoEvents: Array<[string, () => void]> = [
+		['loadedmetadata', updateVideoProperties],
+		['durationchange', updateVideoProperties],
+		['emptied', updateVideoProperties]
+	];
+
+	// The video element is replaced when switching between input and player
+	watch(options.videoElement, (videoEl, previousVideoEl) => {
+		videoEvents.forEach(([event, handler]) => previousVideoEl?.removeEventListener(event, handler));
+		if (!hasMetadataFields) return;
+		videoEvents.forEach(([event, handler]) => videoEl?.addEventListener(event, handler));
+		updateVideoProperties();
+	}, { immediate: true });
+
+	watch(() => JSON.stringify(metadata.value), scheduleAutofill);
+
+	// Properties probed before the fallback are not written either
+	watch(options.isPrimarySource, (isPrimarySource) => {
+		if (!isPrimarySource) cancelAutofill();
+	});
+
+	onUnmounted(() => {
+		cancelAutofill();
+		videoEvents.forEach(([event, handler]) => options.videoElement.value?.removeEventListener(event, handler));
+	});
+
+	return {
+		hasMetadataFields,
+		metadata
+	};
+}
@@ -0,0 +1,131 @@
+/**
+ * Composable for the playback statistics overlay - the same figures for HLS, DASH and progressive playback
+ */
+import { onUnmounted, ref, shallowRef, watch, type Ref } from 'vue';
+import type { PlayerEngine, PlayerEngineKind, SegmentDownload } from '../engines';
+
+interface PlaybackStatsOptions {
+	engine: Ref<PlayerEngine | null>;
+	videoElement: Ref<HTMLVideoElement | null>;
+	streamUrl: Ref<string | null>;
+}
+
+export interface PlaybackStats {
+	kind: PlayerEngineKind | null;
+	manifestUrl: string | null;
+	resolution: string | null;
+	currentBitrate: number | null;
+	targetBitrate: number | null;
+	bandwidthEstimate: number | null;
+	// Seconds buffered ahead of the playhead
+	bufferLength: number;
+	droppedFrames: number | null;
+	totalFrames: number | null;
+	videoCodec: string | null;
+	audioCodec: string | null;
+	lastSegmentDownload: SegmentDownload | null;
+	// Milliseconds, average of the recent downloads
+	averageSegmentDownloadTime: number | null;
+}
+
+// Point of the rolling chart
+export interface PlaybackStatsSample {
+	bitrate: number | null;
+	bandwidth: number | null;
+	bufferLength: number;
+}
+
+const STATS_INTERVAL = 1000;
+// One minute of samples
+const MAX_SAMPLES = 60;
+
+const getBufferLength = (videoEl: HTMLVideoElement): number => {
+	const { buffered, currentTime } = videoEl;
+	for (let index = 0; index < buffered.length; index++) {
+		if (buffered.start(index) <= currentTime && currentTime <= buffered.end(index)) {
+			return buffered.end(index) - currentTime;
+		}
+	}
+	return 0;
+};
+
+export function usePlaybackStats(options: PlaybackStatsOptions) {
+	const showStats = ref(false);
+	const playbackStats = shallowRef<PlaybackStats | null>(null);
+	const statsHistory = shallowRef<PlaybackStatsSample[]>([]);
+	let statsTimer: ReturnType<typeof setInterval> | null = null;
+
+	const updateStats = () => {
+		const videoEl = options.videoElement.value;
+		if (!videoEl) {
+			playbackStats.value = null;
+			return;
+		}
+
+		const engine = options.engine.value;
+		const engineStats = engine?.getPlaybackStats();
+		const quality = typeof videoEl.getVideoPlaybackQuality === 'function' ? videoEl.getVideoPlaybackQuality() : null;
+		const downloads = engineStats?.segmentDownloads ?? [];
+		const bufferLength = Math.round(getBufferLength(videoEl) * 10) / 10;
+
+		playbackStats.value = {
+			kind: engine?.kind ?? null,
+			manifestUrl: options.streamUrl.value,
+			resolution: videoEl.videoWidth ? `${videoEl.videoWidth}x${videoEl.videoHeight}` : null,
+			currentBitrate: engineStats?.currentBitrate ?? null,
+			targetBitrate: engineStats?.targetBitrate ?? null,
+			bandwidthEstimate: engineStats?.bandwidthEstimate ?? null,
+			bufferLength,
+			droppedFrames: quality?.droppedVideoFrames ?? null,
+			totalFrames: quality?.totalVideoFrames ?? null,
+			videoCodec: engineStats?.videoCodec ?? null,
+			audioCodec: engineStats?.audioCodec ?? null,
+			lastSegmentDownload: downloads[0] ?? null,
+			averageSegmentDownloadTime: downloads.length > 0
+				? Math.round(downloads.reduce((total, download) => total + download.duration, 0) / downloads.length)
+				: null
+		};
+
+		statsHistory.value = [
+			...statsHistory.value,
+			{ bitrate: playbackStats.value.currentBitrate, bandwidth: playbackStats.value.bandwidthEstimate, bufferLength }
+		].slice(-MAX_SAMPLES);
+	};
+
+	const stopStats = () => {
+		if (statsTimer) {
+			clearInterval(statsTimer);
+			statsTimer = null;
+		}
+	};
+
+	// Only sampled while the overlay is shown
+	watch(showStats, (visible) => {
+		stopStats();
+		statsHistory.value = [];
+		if (visible) {
+			updateStats();
+			statsTimer = setInterval(updateStats, STATS_INTERVAL);
+		} else {
+			playbackStats.value = null;
+		}
+	});
+
+	// A new stream starts a new chart
+	watch(options.streamUrl, () => {
+		statsHistory.value = [];
+	});
+
+	const toggleStats = () => {
+		showStats.value = !showStats.value;
+	};
+
+	onUnmounted(stopStats);
+
+	return {
+		showStats,
+		playbackStats,
+		statsHistory,
+		toggleStats
+	};
+}
@@ -0,0 +1,237 @@
+/**
+ * Composable for playing a source on a video element through a player engine (HLS, DASH or native)
+ */
+import { ref, shallowRef, type Ref } from 'vue';
+import { createPlayerEngine, resolveStreamFormat, type PlaybackError, type PlayerEngine, type PlayerEngineKind, type StreamFormatOption, type ThumbnailTile } from '../engines';
+import type { AudioTrack, QualityLevel, SubtitleTrack } from '../utils';
+import type { TokenRefresh } from './useTokenRefresh';
+import type { DrmConfig } from '../shared/drm';
+
+interface PlayerEngineComposableOptions {
+	tokenRefresh?: TokenRefresh;
+	// Format override of the interface options (default: probe the URL)
+	streamFormat?: StreamFormatOption | null;
+	// License servers of encrypted streams (see useDrm)
+	drm?: DrmConfig | null;
+}
+
+export type PlaybackFallback = (error: PlaybackError | null) => void;
+
+export interface PlayerEngineInstance {
+	engine: Ref<PlayerEngine | null>;
+	// URL of the current source, also while its format is detected or when playback failed
+	streamUrl: Ref<string | null>;
+	// Format the current source is played as (probed or overridden), null while detecting
+	streamFormat: Ref<PlayerEngineKind | null>;
+	currentQuality: Ref<string | null>;
+	qualityLevels: Ref<QualityLevel[]>;
+	selectedQuality: Ref<number>;
+	subtitleTracks: Ref<SubtitleTrack[]>;
+	selectedSubtitleTrack: Ref<number>;
+	audioTracks: Ref<AudioTrack[]>;
+	selectedAudioTrack: Ref<number>;
+	// Why playback failed (CSP, CORS, expired token, ...), null while playing
+	playbackError: Ref<PlaybackError | null>;
+	// Live stream, seconds behind the live edge and whether playback fell behind the latency the player keeps
+	isLive: Ref<boolean>;
+	liveLatency: Ref<number | null>;
+	isBehindLive: Ref<boolean>;
+	// The stream has seek bar thumbnails (I-frame playlists, DASH image adaptation sets)
+	hasThumbnails: Ref<boolean>;
+	getThumbnail: (time: number) => Promise<ThumbnailTile | null>;
+	// Without a kind the format is resolved from the stream format option or by probing the URL. The fallback runs
+	// when the browser can't play the format (error null) or playback failed for good
+	setupPlayer: (videoEl: HTMLVideoElement, url: string, kind?: PlayerEngineKind, fallback?: PlaybackFallback) => void;
+	setQuality: (index: number) => void;
+	setSubtitleTrack: (index: number) => void;
+	setAudioTrack: (index: number) => void;
+	seekToLive: () => void;
+	cleanupPlayer: () => void;
+}
+
+// Seconds beyond the target latency before playback counts as behind live
+const LIVE_EDGE_TOLERANCE = 3;
+const LIVE_UPDATE_INTERVAL = 1000;
+
+export function usePlayerEngine(options: PlayerEngineComposableOptions = {}): PlayerEngineInstance {
+	const { tokenRefresh, drm } = options;
+	const engine = shallowRef<PlayerEngine | null>(null);
+	const streamUrl = ref<string | null>(null);
+	const streamFormat = ref<PlayerEngineKind | null>(null);
+	// Incremented on every setup and cleanup, a probe finishing after that is outdated
+	let setupId = 0;
+	const currentQuality = ref<string | null>(null);
+	// Available renditions and the pinned rendition (-1 = automatic ABR)
+	const qualityLevels = ref<QualityLevel[]>([]);
+	const selectedQuality = ref<number>(-1);
+	// In-manifest subtitle tracks and the active track (-1 = off)
+	const subtitleTracks = ref<SubtitleTrack[]>([]);
+	const selectedSubtitleTrack = ref<number>(-1);
+	// Alternate audio tracks (e.g., languages) and the active track
+	const audioTracks = ref<AudioTrack[]>([]);
+	const selectedAudioTrack = ref<number>(-1);
+	const playbackError = shallowRef<PlaybackError | null>(null);
+	const isLive = ref(false);
+	const liveLatency = ref<number | null>(null);
+	const isBehindLive = ref(false);
+	const hasThumbnails = ref(false);
+	// Latency keeps growing while paused, so it's polled instead of read on timeupdate
+	let liveTimer: ReturnType<typeof setInterval> | null = null;
+	let videoElement: HTMLVideoElement | null = null;
+
+	// Copy the engine state into the refs (engines emit an event whenever it changes)
+	const syncState = () => {
+		const current = engine.value;
+		currentQuality.value = current?.getCurrentQuality() ?? null;
+		qualityLevels.value = current?.getQualityLevels() ?? [];
+		selectedQuality.value = current?.getSelectedQuality() ?? -1;
+		subtitleTracks.value = current?.getSubtitleTracks() ?? [];
+		selectedSubtitleTrack.value = current?.getSelectedSubtitleTrack() ?? -1;
+		audioTracks.value = current?.getAudioTracks() ?? [];
+		selectedAudioTrack.value = current?.getSelectedAudioTrack() ?? -1;
+		hasThumbnails.value = current?.hasThumbnails() ?? false;
+	};
+
+	const updateLive = () => {
+		const current = engine.value;
+		isLive.value = current?.isLive() ?? false;
+		const latency = isLive.value ? current?.getLiveLatency() ?? null : null;
+		liveLatency.value = latency !== null ? Math.round(latency * 10) / 10 : null;
+		isBehindLive.value = latency !== null && latency > (current?.getTargetLatency() ?? 0) + LIVE_EDGE_TOLERANCE;
+
+		if (isLive.value && !liveTimer) {
+			liveTimer = setInterval(updateLive, LIVE_UPDATE_INTERVAL);
+		} else if (!isLive.value && liveTimer) {
+			clearInterval(liveTimer);
+			liveTimer = null;
+		}
+	};
+
+	const cleanupPlayer = () => {
+		setupId++;
+		streamUrl.value = null;
+		streamFormat.value = null;
+		if (engine.value) {
+			engine.value.destroy();
+			engine.value = null;
+		}
+		videoElement = null;
+		syncState();
+		updateLive();
+		playbackError.value = null;
+	};
+
+	const startEngine = (videoEl: HTMLVideoElement, url: string, kind: PlayerEngineKind, fallback?: PlaybackFallback) => {
+		const playerEngine = createPlayerEngine(kind, videoEl, { tokenRefresh, drm });
+		if (!playerEngine) {
+			if (fallback) fallback(null);
+			return;
+		}
+
+		engine.value = playerEngine;
+		videoElement = videoEl;
+		streamFormat.value = kind;
+		playerEngine.on('live', updateLive);
+		playerEngine.on('levels', syncState);
+		playerEngine.on('quality', syncState);
+		playerEngine.on('tracks', syncState);
+		playerEngine.on('thumbnails', syncState);
+		let isFallingBack = false;
+		playerEngine.on('fatalError', (error) => {
+			// The first error is the cause, except CSP - blocked blob: URLs make the engines fail in other ways too
+			if (playbackError.value && (playbackError.value.kind === 'csp' || error.kind !== 'csp')) return;
+			console.error(`[PlayerEngine] ${error.title}:`, error.details);
+			playbackError.value = error;
+
+			// Once per source - the fallback destroys this engine, so not within its own event
+			if (fallback && !isFallingBack) {
+				isFallingBack = true;
+				const currentSetupId = setupId;
+				setTimeout(() => {
+					if (currentSetupId === setupId) fallback(error);
+				}, 0);
+			}
+		});
+
+		try {
+			playerEngine.load(url);
+		} catch (error) {
+			console.error(`[PlayerEngine] Error setting up ${playerEngine.kind} playback:`, error);
+			cleanupPlayer();
+			// Keep the URL for the diagnostics of the failed stream
+			streamUrl.value = url;
+			if (fallback) fallback(null);
+		}
+	};
+
+	const setupPlayer = (videoEl: HTMLVideoElement, url: string, kind?: PlayerEngineKind, fallback?: PlaybackFallback) => {
+		cleanupPlayer();
+
+		if (!url) {
+			if (fallback) fallback(null);
+			return;
+		}
+		streamUrl.value = url;
+
+		if (kind) {
+			startEngine(videoEl, url, kind, fallback);
+			return;
+		}
+
+		const currentSetupId = setupId;
+		resolveStreamFormat(url, options.streamFormat).then((resolvedKind) => {
+			// Cleaned up or set up again while probing
+			if (currentSetupId !== setupId) return;
+			startEngine(videoEl, url, resolvedKind, fallback);
+		});
+	};
+
+	const setQuality = (index: number) => {
+		engine.value?.setQuality(index);
+	};
+
+	const setSubtitleTrack = (index: number) => {
+		engine.value?.setSubtitleTrack(index);
+	};
+
+	const setAudioTrack = (index: number) => {
+		engine.value?.setAudioTrack(index);
+	};
+
+	const getThumbnail = (time: number): Promise<ThumbnailTile | null> => {
+		return engine.value ? engine.value.getThumbnail(time) : Promise.resolve(null);
+	};
+
+	// Jump to the live edge and keep playing from there
+	const seekToLive = () => {
+		if (!engine.value?.isLive()) return;
+		engine.value.seekToLive();
+		videoElement?.play().catch(() => {});
+		updateLive();
+	};
+
+	return {
+		engine,
+		streamUrl,
+		streamFormat: streamFormat as Ref<PlayerEngineKind | null>,
+		currentQuality: currentQuality as Ref<string | null>,
+		qualityLevels: qualityLevels as Ref<QualityLevel[]>,
+		selectedQuality,
+		subtitleTracks: subtitleTracks as Ref<SubtitleTrack[]>,
+		selectedSubtitleTrack,
+		audioTracks: audioTracks as Ref<AudioTrack[]>,
+		selectedAudioTrack,
+		playbackError,
+		isLive,
+		liveLatency: liveLatency as Ref<number | null>,
+		isBehindLive,
+		hasThumbnails,
+		getThumbnail,
+		setupPlayer,
+		setQuality,
+		setSubtitleTrack,
+		setAudioTrack,
+		seekToLive,
+		cleanupPlayer
+	};
+}
@@ -0,0 +1,185 @@
+/**
+ * Composable for playlist fields - files (M2M to directus_files), M2M, O2M and CSV/JSON arrays of stream links
+ *
+ * Relational entries are read from the related collection in the order of the relation sort field,
+ * reordering them emits the new sort values as relational changes, saved with the item.
+ */
+import { computed, ref, shallowRef, watch, type Ref } from 'vue';
+
+export type PlaylistKind = 'relational' | 'array';
+
+export interface PlaylistEntry {
+	// Junction or related primary key, the position for CSV/JSON arrays
+	key: string | number;
+	title: string;
+	streamLink: string | null;
+	// File of the entry (source file played without stream link)
+	fileId: string | null;
+}
+
+interface PlaylistOptions {
+	api: any;
+	relationsStore: any;
+	fieldsStore: any;
+	collection: string;
+	field: string;
+	type: string | undefined;
+	value: Ref<unknown>;
+	primaryKey: string | number | null | undefined;
+	streamLinkFieldName: string;
+	titleFieldName: string;
+	emitValue: (value: unknown) => void;
+}
+
+// Relational changes Directus saves with the item
+interface RelationalChanges {
+	create: unknown[];
+	update: Record<string, unknown>[];
+	delete: unknown[];
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const isRelationalChanges = (value: unknown): value is RelationalChanges => {
+	return !!value && typeof value === 'object' && !Array.isArray(value) && 'update' in value;
+};
+
+export function usePlaylist(options: PlaylistOptions) {
+	const kind: PlaylistKind = options.type === 'alias' ? 'relational' : 'array';
+	const entries = shallowRef<PlaylistEntry[]>([]);
+	const loading = ref(false);
+	const error = ref<string | null>(null);
+
+	// Relation of the list (to the junction collection for M2M) and of the junction to the related collection
+	const relations: any[] = kind === 'relational' ? options.relationsStore.getRelationsForField(options.collection, options.field) ?? [] : [];
+	const listRelation = relations.find((relation) => relation.related_collection === options.collection && relation.meta?.one_field === options.field) ?? null;
+	const junctionField: string | null = listRelation?.meta?.junction_field ?? null;
+	const junctionRelation = junctionField
+		? relations.find((relation) => relation.collection === listRelation.collection && relation.field === junctionField) ?? null
+		: null;
+	const sortField: string | null = listRelation?.meta?.sort_field ?? null;
+	const listPrimaryKeyField: string | null = listRelation
+		? options.fieldsStore.getPrimaryKeyFieldForCollection(listRelation.collection)?.field ?? null
+		: null;
+	const isFileList = junctionRelation?.related_collection === 'directus_files';
+
+	const isNewItem = computed(() => kind === 'relational' && (options.primaryKey === undefined || options.primaryKey === null || options.primaryKey === '+'));
+
+	// CSV/JSON arrays can always be reordered, relations only with a sort field
+	const canReorder = computed(() => kind === 'array' || (!!sortField && !!listPrimaryKeyField));
+
+	const toRelationalEntry = (row: Record<string, any>): PlaylistEntry => {
+		// M2M entries are the related item of the junction row
+		const related = junctionField ? row[junctionField] ?? {} : row;
+		const streamLink = options.streamLinkFieldName ? related[options.streamLinkFieldName] : null;
+		const title = options.titleFieldName ? related[options.titleFieldName] : isFileList ? related.title || related.filename_download : null;
+		const relatedKey = related.id ?? row[listPrimaryKeyField!];
+		return {
+			key: row[listPrimaryKeyField!],
+			title: String(title || relatedKey),
+			streamLink: typeof streamLink === 'string' && streamLink ? streamLink : null,
+			fileId: isFileList ? related.id ?? null : null
+		};
+	};
+
+	// Entries of CSV/JSON arrays are stream links, file ids or { url, title } objects
+	const toArrayEntry = (value: unknown, index: number): PlaylistEntry | null => {
+		const link = typeof value === 'string' ? value : (value as any)?.url;
+		if (typeof link !== 'string' || !link) return null;
+		const isFileId = UUID_PATTERN.test(link);
+		return {
+			key: index,
+			title: (value as any)?.title || (isFileId ? link : link.split('/').pop() || link),
+			streamLink: isFileId ? null : link,
+			fileId: isFileId ? link : null
+		};
+	};
+
+	const loadRelationalEntries = async () => {
+		if (!listRelation || !listPrimaryKeyField || isNewItem.value) {
+			entries.value = [];
+			return;
+		}
+
+		loading.value = true;
+		error.value = null;
+		try {
+			const response = await options.api.get(`/items/${listRelation.collection}`, {
+				params: {
+					fields: junctionField ? [listPrimaryKeyField, `${junctionField}.*`] : ['*'],
+					filter: { [listRelation.field]: { _eq: options.primaryKey } },
+					sort: [sortField || listPrimaryKeyField],
+					limit: -1
+				}
+			});
+			entries.value = (response.data.data || []).map(toRelationalEntry);
+		} catch (loadError: any) {
+			console.error('[Playlist] Failed to load the entries:', loadError);
+			error.value = loadError?.response?.data?.errors?.[0]?.message || loadError?.message || 'Failed to load the playlist';
+		} finally {
+			loading.value = false;
+		}
+	};
+
+	const parseArrayValue = (value: unknown): unknown[] => {
+		if (Array.isArray(value)) return value;
+		if (typeof value !== 'string' || !value) return [];
+		// Unparsed JSON or comma separated values
+		try {
+			const parsed = JSON.parse(value);
+			return Array.isArray(parsed) ? parsed : [];
+		} catch {
+			return value.split(',').map((part) => part.trim());
+		}
+	};
+
+	// Saved lists are arrays of keys, pending changes (e.g., our own reorder) keep the entries as they are
+	watch(options.value, (value) => {
+		if (kind === 'array') {
+			entries.value = parseArrayValue(value)
+				.map(toArrayEntry)
+				.filter((entry): entry is PlaylistEntry => entry !== null);
+			return;
+		}
+		if (!isRelationalChanges(value)) {
+			loadRelationalEntries();
+		}
+	}, { immediate: true });
+
+	const moveEntry = (fromIndex: number, toIndex: number) => {
+		if (!canReorder.value || fromIndex === toIndex) return;
+		const reordered = [...entries.value];
+		const [moved] = reordered.splice(fromIndex, 1);
+		reordered.splice(toIndex, 0, moved);
+
+		if (kind === 'array') {
+			const values = parseArrayValue(options.value.value);
+			// Values that aren't playable stay at the end instead of getting lost
+			const playableIndexes = new Set(reordered.map((entry) => entry.key));
+			options.emitValue([
+				...reordered.map((entry) => values[entry.key as number]),
+				...values.filter((_value, index) => !playableIndexes.has(index))
+			]);
+			return;
+		}
+
+		entries.value = reordered;
+		options.emitValue({
+			create: [],
+			update: reordered.map((entry, index) => ({ [listPrimaryKeyField!]: entry.key, [sortField!]: index + 1 })),
+			delete: []
+		});
+	};
+
+	return {
+		kind,
+		entries,
+		loading,
+		error,
+		isNewItem,
+		canReorder,
+		sortField,
+		moveEntry,
+		reload: loadRelationalEntries
+	};
+}
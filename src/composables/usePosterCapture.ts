@@ -0,0 +1,99 @@
+/**
+ * Composable for saving the current video frame as poster image of the item
+ */
+import { ref, type Ref } from 'vue';
+import { formatTime } from '../utils';
+
+export type PosterFormat = 'image/jpeg' | 'image/webp';
+
+interface PosterCaptureOptions {
+	api: any;
+	videoElement: Ref<HTMLVideoElement | null>;
+	posterImageFieldName?: string;
+	posterFormat?: PosterFormat;
+	folder: Ref<string | null>;
+	setFieldValue: (field: string, value: unknown) => void;
+}
+
+const POSTER_QUALITY = 0.9;
+
+export function usePosterCapture(options: PosterCaptureOptions) {
+	const isCapturingPoster = ref(false);
+	const posterCaptureError = ref<string | null>(null);
+
+	const captureFrame = (videoEl: HTMLVideoElement, format: PosterFormat): Promise<Blob> => {
+		const canvas = document.createElement('canvas');
+		canvas.width = videoEl.videoWidth;
+		canvas.height = videoEl.videoHeight;
+		const context = canvas.getContext('2d');
+		if (!context) {
+			return Promise.reject(new Error('Canvas is not supported in this browser'));
+		}
+		context.drawImage(videoEl, 0, 0, canvas.width, canvas.height);
+
+		return new Promise((resolve, reject) => {
+			try {
+				canvas.toBlob((blob) => {
+					if (blob) {
+						resolve(blob);
+					} else {
+						reject(new Error('The video frame could not be encoded'));
+					}
+				}, format, POSTER_QUALITY);
+			} catch (error) {
+				// Frames of cross-origin videos without CORS headers taint the canvas
+				if ((error as Error)?.name === 'SecurityError') {
+					reject(new Error('The browser blocks reading frames of this video because it is served from another origin without CORS headers (Access-Control-Allow-Origin). Capture the poster from a stream or file on the Directus origin, or allow CORS on the streaming server.'));
+				} else {
+					reject(error);
+				}
+			}
+		});
+	};
+
+	// Upload the current frame to /files and write the new file id to the poster field
+	const capturePoster = async () => {
+		const videoEl = options.videoElement.value;
+		const fieldName = options.posterImageFieldName;
+		if (!videoEl || !fieldName || isCapturingPoster.value) return;
+
+		posterCaptureError.value = null;
+		if (videoEl.readyState < HTMLMediaElement.HAVE_CURRENT_DATA || !videoEl.videoWidth) {
+			posterCaptureError.value = 'There is no video frame to capture yet. Play or seek the video first.';
+			return;
+		}
+
+		isCapturingPoster.value = true;
+		try {
+			const format = options.posterFormat || 'image/jpeg';
+			const blob = await captureFrame(videoEl, format);
+			const extension = format === 'image/webp' ? 'webp' : 'jpg';
+			const filename = `poster-${formatTime(videoEl.currentTime).replace(/:/g, '-')}.${extension}`;
+
+			// The folder has to be sent before the file
+			const formData = new FormData();
+			if (options.folder.value) {
+				formData.append('folder', options.folder.value);
+			}
+			formData.append('file', blob, filename);
+
+			const response = await options.api.post('/files', formData);
+			const fileId = response.data?.data?.id;
+			if (!fileId) {
+				throw new Error('The uploaded poster has no file id');
+			}
+			options.setFieldValue(fieldName, fileId);
+		} catch (error) {
+			console.error('Failed to capture poster image:', error);
+			posterCaptureError.value = (error as any)?.response?.data?.errors?.[0]?.message || (error as Error)?.message || 'The poster image could not be saved';
+		} finally {
+			isCapturingPoster.value = false;
+		}
+	};
+
+	return {
+		isCapturingPoster,
+		posterCaptureError,
+		capturePoster
+	};
+}
@@ -1,26 +1,13 @@
 /**
  * Composable for replacement player DOM manipulation logic
  */
-import { ref, type Ref } from 'vue';
-import Hls from 'hls.js';
-import * as dashjs from 'dashjs';
+import { ref, watch, type Ref } from 'vue';
 import { getFileIdFromContext, formatFileSize } from '../utils';
 import type { useApi } from '@directus/extensions-sdk';
-import { isDashStream } from './useDashPlayer';
-
-/**
- * Check if an error message indicates a CSP violation
- */
-function isCspError(errorMessage: string): boolean {
-	const cspKeywords = [
-		'Content Security Policy',
-		'media-src',
-		'blob:',
-		'violates the following Content Security Policy directive'
-	];
-	const lowerMessage = errorMessage.toLowerCase();
-	return cspKeywords.some(keyword => lowerMessage.includes(keyword.toLowerCase()));
-}
+import { isDashStream } from '../engines';
+import { usePlayerEngine } from './usePlayerEngine';
+import type { TokenRefresh } from './useTokenRefresh';
+import type { DrmConfig } from '../shared/drm';
 
 export function useReplacementPlayer(
 	props: any,
@@ -29,30 +16,33 @@ export function useReplacementPlayer(
 	shouldReplaceDefaultPlayer: Ref<boolean>,
 	streamUrlFromValue: Ref<string | null>,
 	useHls: Ref<boolean>,
-	setupHlsPlayer: (videoEl: HTMLVideoElement, streamUrl: string, fallback?: () => void) => void,
-	setupDashPlayer: (videoEl: HTMLVideoElement, streamUrl: string, fallback?: () => void) => void,
-	mp4Url: Ref<string | null>
+	mp4Url: Ref<string | null>,
+	tokenRefresh?: TokenRefresh,
+	drm?: DrmConfig | null
 ) {
 	const replacementVideoElement = ref<HTMLVideoElement | null>(null);
-	const replacementHlsInstance = ref<any>(null);
-	const replacementDashInstance = ref<dashjs.MediaPlayerClass | null>(null);
-	const replacementQuality = ref<string | null>(null);
-	const replacementCspError = ref<string | null>(null);
 	const currentFileId = ref<string | null>(null);
 	const currentFileType = ref<string | null>(null);
 	const currentFileData = ref<any>(null);
-	
-	// Helper function to set CSP error for replacement player
-	const setReplacementCspError = () => {
-		// Only set error if not already set to avoid unnecessary updates
-		if (replacementCspError.value) {
-			return;
-		}
-		const errorMessage = 'Content Security Policy (CSP) is blocking streaming. Please add the following environment variable to your Directus configuration:\n\nCONTENT_SECURITY_POLICY_DIRECTIVES__MEDIA_SRC=array:\'self\', blob: data:';
-		replacementCspError.value = errorMessage;
-		// Also update the UI to show the error
-		updateReplacementPlayerErrorDisplay();
-	};
+
+	// The replacement video element plays through its own engine
+	const {
+		engine: replacementEngine,
+		streamFormat: replacementStreamFormat,
+		currentQuality: replacementQuality,
+		qualityLevels: replacementQualityLevels,
+		selectedQuality: replacementSelectedQuality,
+		playbackError: replacementPlaybackError,
+		isLive: replacementIsLive,
+		liveLatency: replacementLiveLatency,
+		isBehindLive: replacementIsBehindLive,
+		setupPlayer: setupReplacementEngine,
+		setQuality: setReplacementQuality,
+		seekToLive: seekReplacementToLive,
+		cleanupPlayer: cleanupReplacementEngine
+	} = usePlayerEngine({ tokenRefresh, streamFormat: attrs.stream_format, drm });
+	// Shown while the source file plays because the stream failed
+	const replacementFallbackNotice = ref<string | null>(null);
 	
 	// Update error display in replacement player
 	const updateReplacementPlayerErrorDisplay = () => {
@@ -60,15 +50,18 @@ export function useReplacementPlayer(
 		if (!container) return;
 		
 		// Remove existing error display if any
-		const existingError = container.querySelector('.replacement-player-csp-error');
+		const existingError = container.querySelector('.replacement-player-error');
 		if (existingError) {
 			existingError.remove();
 		}
 		
-		// Add error display if there's an error
-		if (replacementCspError.value) {
+		// Add error display if there's an error, or the fallback banner
+		const playbackError = replacementPlaybackError.value;
+		const fallbackNotice = replacementFallbackNotice.value;
+		if (playbackError || fallbackNotice) {
+			const foreground = playbackError ? 'var(--theme--warning-foreground, #856404)' : 'var(--theme--foreground, #172940)';
 			const errorContainer = document.createElement('div');
-			errorContainer.className = 'replacement-player-csp-error';
+			errorContainer.className = 'replacement-player-error';
 			errorContainer.style.cssText = `
 				margin-top: 12px;
 				max-width: 100%;
@@ -77,28 +70,28 @@ export function useReplacementPlayer(
 			// Create notice-like element
 			const notice = document.createElement('div');
 			notice.style.cssText = `
-				background: var(--theme--warning-background, #fff3cd);
-				border: 1px solid var(--theme--warning-border, #ffc107);
+				background: ${playbackError ? 'var(--theme--warning-background, #fff3cd)' : 'var(--theme--primary-background, #f0ecff)'};
+				border: 1px solid ${playbackError ? 'var(--theme--warning-border, #ffc107)' : 'var(--theme--primary, #6644ff)'};
 				border-radius: var(--theme--border-radius, 4px);
 				padding: 12px;
 			`;
 			
 			const title = document.createElement('div');
-			title.textContent = 'CSP Configuration Required';
+			title.textContent = playbackError ? playbackError.title : 'Playing the Source File';
 			title.style.cssText = `
 				font-weight: 600;
 				margin-bottom: 8px;
-				color: var(--theme--warning-foreground, #856404);
+				color: ${foreground};
 			`;
 			
 			const message = document.createElement('div');
-			message.textContent = replacementCspError.value;
+			message.textContent = playbackError ? playbackError.message : fallbackNotice;
 			message.style.cssText = `
 				white-space: pre-line;
-				font-family: monospace;
+				font-family: ${playbackError?.kind === 'csp' ? 'monospace' : 'inherit'};
 				font-size: 12px;
 				line-height: 1.5;
-				color: var(--theme--warning-foreground, #856404);
+				color: ${foreground};
 			`;
 			
 			notice.appendChild(title);
@@ -115,17 +108,95 @@ export function useReplacementPlayer(
 		}
 	};
 
-	// Format quality height to display string
-	const formatQuality = (height: number | undefined): string | null => {
-		if (!height) return null;
-		if (height >= 2160) return '4K';
-		if (height >= 1440) return '1440p';
-		if (height >= 1080) return '1080p';
-		if (height >= 720) return '720p';
-		if (height >= 480) return '480p';
-		if (height >= 360) return '360p';
-		if (height >= 240) return '240p';
-		return `${height}p`;
+	// Render the quality select in the file preview (hidden when there is nothing to choose)
+	const updateReplacementQualityMenu = () => {
+		const container = document.querySelector('.file-preview');
+		if (!container) return;
+	
+		const wrapper = (container.querySelector('.video-container-wrapper') || container) as HTMLElement;
+		let select = wrapper.querySelector('.replacement-player-quality') as HTMLSelectElement | null;
+	
+		if (!useHls.value || replacementQualityLevels.value.length <= 1) {
+			select?.remove();
+			return;
+		}
+	
+		if (!select) {
+			select = document.createElement('select');
+			select.className = 'replacement-player-quality';
+			select.title = 'Quality';
+			select.style.cssText = `
+				position: absolute;
+				inset-block-start: 12px;
+				inset-inline-end: 12px;
+				z-index: 4;
+				padding: 2px 6px;
+				border: none;
+				border-radius: 4px;
+				background: var(--theme--primary, #6644ff);
+				color: var(--theme--foreground-inverse, #fff);
+				font-size: 11px;
+				font-weight: 500;
+				cursor: pointer;
+			`;
+			select.addEventListener('change', (event) => {
+				setReplacementQuality(Number((event.target as HTMLSelectElement).value));
+			});
+			wrapper.appendChild(select);
+		}
+	
+		select.innerHTML = '';
+		const options = [
+			{ value: -1, text: 'Auto' },
+			...replacementQualityLevels.value.map((level) => ({ value: level.index, text: level.label }))
+		];
+		for (const option of options) {
+			const optionEl = document.createElement('option');
+			optionEl.value = String(option.value);
+			optionEl.textContent = option.text;
+			select.appendChild(optionEl);
+		}
+		select.value = String(replacementSelectedQuality.value);
+	};
+
+	// Render the live badge in the file preview - clicking it jumps back to the live edge
+	const updateReplacementLiveButton = () => {
+		const container = document.querySelector('.file-preview');
+		if (!container) return;
+
+		const wrapper = (container.querySelector('.video-container-wrapper') || container) as HTMLElement;
+		let button = wrapper.querySelector('.replacement-player-live') as HTMLButtonElement | null;
+
+		if (!useHls.value || !replacementIsLive.value) {
+			button?.remove();
+			return;
+		}
+
+		if (!button) {
+			button = document.createElement('button');
+			button.type = 'button';
+			button.className = 'replacement-player-live';
+			button.title = 'Go to Live';
+			button.style.cssText = `
+				position: absolute;
+				inset-block-start: 12px;
+				inset-inline-start: 12px;
+				z-index: 4;
+				padding: 2px 6px;
+				border: none;
+				border-radius: 4px;
+				color: var(--theme--foreground-inverse, #fff);
+				font-size: 11px;
+				font-weight: 500;
+				font-variant-numeric: tabular-nums;
+				cursor: pointer;
+			`;
+			button.addEventListener('click', () => seekReplacementToLive());
+			wrapper.appendChild(button);
+		}
+
+		button.textContent = replacementLiveLatency.value !== null ? `LIVE -${replacementLiveLatency.value.toFixed(1)}s` : 'LIVE';
+		button.style.background = replacementIsBehindLive.value ? 'var(--theme--foreground-subdued, #a2b5cd)' : 'var(--theme--danger, #e35169)';
 	};
 
 	// Load file data to get type/mimetype and other file info
@@ -142,342 +213,45 @@ export function useReplacementPlayer(
 		}
 	};
 
+	// Play the stream, the source file takes over when it fails (see the Fallback on Errors option)
+	const playReplacementStream = (videoEl: HTMLVideoElement, streamUrl: string) => {
+		replacementFallbackNotice.value = null;
+		setupReplacementEngine(videoEl, streamUrl, undefined, (error) => {
+			const fileUrl = mp4Url.value;
+			if ((error && attrs.enable_fallback === false) || !fileUrl) return;
+			console.warn('[ReplacementPlayer] Stream failed, playing the source file:', error?.title ?? 'format not supported');
+			useHls.value = false;
+			setupReplacementEngine(videoEl, fileUrl, 'native');
+			replacementFallbackNotice.value = `The stream link failed (${error ? error.title : 'format not supported'}). Use "Switch to Stream" to try it again.`;
+			const toggleButton = document.querySelector('.file-preview .format-toggle');
+			if (toggleButton) toggleButton.textContent = 'Switch to Stream';
+			updateReplacementPlayerInfo();
+		});
+	};
+
 	// Update replacement player based on current format
 	const updateReplacementPlayer = () => {
 		if (!replacementVideoElement.value) return;
 		
-		// Cleanup existing HLS instance
-		if (replacementHlsInstance.value) {
-			replacementHlsInstance.value.destroy();
-			replacementHlsInstance.value = null;
-		}
-		
-		// Cleanup existing DASH instance
-		if (replacementDashInstance.value) {
-			try {
-				replacementDashInstance.value.reset();
-				replacementDashInstance.value.destroy();
-			} catch (error) {
-				console.warn('[ReplacementPlayer] Error cleaning up DASH:', error);
-			}
-			replacementDashInstance.value = null;
-		}
-		
-		// Reset quality and CSP error
-		replacementQuality.value = null;
-		replacementCspError.value = null;
+		// Cleanup existing engine (resets quality and playback error)
+		cleanupReplacementEngine();
+		replacementFallbackNotice.value = null;
 		
 		// Clear video src
 		replacementVideoElement.value.src = '';
 		replacementVideoElement.value.removeAttribute('src');
 		
-		// Remove error display
-		const container = document.querySelector('.file-preview');
-		if (container) {
-			const existingError = container.querySelector('.replacement-player-csp-error');
-			if (existingError) {
-				existingError.remove();
-			}
-		}
-		
 		if (useHls.value) {
 			// Switch to streaming format (HLS or DASH)
 			const streamUrl = streamUrlFromValue.value;
-			if (streamUrl && replacementVideoElement.value) {
-				const videoEl = replacementVideoElement.value;
-				
-				if (isDashStream(streamUrl)) {
-					// Create DASH instance with quality tracking
-					try {
-						const dashPlayer = dashjs.MediaPlayer().create();
-						dashPlayer.updateSettings({
-							streaming: {
-								buffer: {
-									bufferTimeAtTopQuality: 30,
-									bufferTimeAtTopQualityLongForm: 30,
-									longFormContentDurationThreshold: 600,
-									initialBufferLevel: 30,
-									fastSwitchEnabled: true
-								},
-								abr: {
-									useDefaultABRRules: true,
-									initialBitrate: { audio: -1, video: -1 }
-								}
-							}
-						});
-
-						// Helper function to update quality - using the same approach as useDashPlayer.ts
-						const updateDashQuality = (representation?: any) => {
-							try {
-								const playerAny = dashPlayer as any;
-								let currentRep = representation;
-								
-								// If representation provided from event, use it
-								if (currentRep && currentRep.height) {
-									const quality = formatQuality(currentRep.height);
-									if (quality) {
-										replacementQuality.value = quality;
-										updateReplacementPlayerInfo();
-										return;
-									}
-								}
-								
-								// Try new API methods first
-								if (!currentRep) {
-									currentRep = playerAny.getCurrentRepresentationForType?.('video');
-								}
-								
-								// Try old API methods as fallback (for older dash.js versions)
-								if (!currentRep) {
-									const qualityIndex = playerAny.getQualityFor?.('video');
-									if (qualityIndex !== undefined && qualityIndex !== null) {
-										const bitrateList = playerAny.getBitrateInfoListFor?.('video') || [];
-										if (bitrateList[qualityIndex]) {
-											currentRep = bitrateList[qualityIndex];
-										}
-									}
-								}
-								
-								// Try getting from representations list
-								if (!currentRep) {
-									const representations = playerAny.getRepresentationsByType?.('video') || [];
-									if (representations.length > 0) {
-										// Try to find current representation by quality index
-										const qualityIndex = playerAny.getQualityFor?.('video');
-										if (qualityIndex !== undefined && qualityIndex !== null && representations[qualityIndex]) {
-											currentRep = representations[qualityIndex];
-										} else {
-											currentRep = representations[0];
-										}
-									}
-								}
-								
-								// Fallback: use video element dimensions
-								if (!currentRep || !currentRep.height) {
-									const videoHeight = videoEl.videoHeight;
-									if (videoHeight && videoHeight > 0) {
-										const quality = formatQuality(videoHeight);
-										if (quality) {
-											replacementQuality.value = quality;
-											updateReplacementPlayerInfo();
-											return;
-										}
-									}
-								}
-								
-								// If we have a representation with height, use it
-								if (currentRep && currentRep.height) {
-									const quality = formatQuality(currentRep.height);
-									if (quality) {
-										replacementQuality.value = quality;
-										updateReplacementPlayerInfo();
-									}
-								}
-							} catch (error) {
-								console.warn('[ReplacementPlayer] Error updating DASH quality:', error);
-							}
-						};
-
-						const Events = dashjs.MediaPlayer.events;
-						if (Events) {
-							// Listen for stream initialized - representations are available after this
-							if (Events.STREAM_INITIALIZED) {
-								dashPlayer.on(Events.STREAM_INITIALIZED, () => {
-									setTimeout(updateDashQuality, 200);
-								});
-							}
-							
-							// Listen for quality changes - event provides newRepresentation directly
-							if (Events.QUALITY_CHANGE_RENDERED) {
-								dashPlayer.on(Events.QUALITY_CHANGE_RENDERED, (e: any) => {
-									// Use the representation from the event like the reference player does
-									if (e && e.newRepresentation && e.mediaType === 'video') {
-										updateDashQuality(e.newRepresentation);
-									} else {
-										updateDashQuality();
-									}
-								});
-							}
-						}
-
-						dashPlayer.initialize(videoEl, streamUrl, false);
-						replacementDashInstance.value = dashPlayer;
-						
-						// Error handler for video element errors (CSP detection ONLY)
-						const handleDashVideoError = (event: Event) => {
-							const error = (event.target as HTMLVideoElement)?.error;
-							if (error) {
-								// ONLY treat as CSP error if:
-								// Error code is 4 (MEDIA_ERR_SRC_NOT_SUPPORTED) AND
-								// Error message contains "URL safety check" (this is the SPECIFIC CSP indicator)
-								// Do NOT treat error code 2 (network errors like 404/403) as CSP
-								if (error.code === 4) {
-									const errorMessage = error.message || '';
-									// "URL safety check" is the specific message browsers show when CSP blocks blob URLs
-									if (errorMessage.includes('URL safety check')) {
-										if (replacementDashInstance.value) {
-											setReplacementCspError();
-										}
-									}
-								}
-								// All other errors (404, 403, network errors, etc.) are NOT CSP errors
-							}
-						};
-						
-						videoEl.addEventListener('error', handleDashVideoError);
-						
-						// Also try to detect CSP errors by checking if video fails to load after a delay
-						// Only check if we're using blob URLs (which CSP blocks)
-						const checkForDashCspError = setTimeout(() => {
-							if (replacementDashInstance.value && videoEl.error) {
-								const error = videoEl.error;
-								const errorMessage = error.message || '';
-								const videoSrc = videoEl.src || videoEl.getAttribute('src') || '';
-								
-								// ONLY treat as CSP if error code is 4 with "URL safety check" message
-								// Do NOT treat error code 2 (network errors like 404/403) as CSP
-								if (error.code === 4 && errorMessage.includes('URL safety check')) {
-									setReplacementCspError();
-								}
-							}
-						}, 2000);
-						
-						videoEl.addEventListener('loadedmetadata', () => {
-							clearTimeout(checkForDashCspError);
-							setTimeout(updateDashQuality, 300);
-						});
-						// Initial quality check with retries
-						setTimeout(updateDashQuality, 500);
-						setTimeout(updateDashQuality, 1500);
-						setTimeout(updateDashQuality, 3000);
-					} catch (error) {
-						console.error('[ReplacementPlayer] Error setting up DASH:', error);
-						setupDashPlayer(videoEl, streamUrl);
-					}
-				} else {
-					// Create HLS instance with quality tracking
-					if (Hls.isSupported()) {
-						const hls = new Hls({
-							enableWorker: true,
-							lowLatencyMode: true,
-							backBufferLength: 90,
-							autoStartLoad: true,
-							maxBufferLength: 3,
-							maxMaxBufferLength: 6,
-							maxBufferSize: 60 * 1000 * 1000
-						});
-						
-						// Error handler for video element errors (CSP detection ONLY)
-						const handleVideoError = (event: Event) => {
-							const error = (event.target as HTMLVideoElement)?.error;
-							if (error) {
-								// ONLY treat as CSP error if:
-								// Error code is 4 (MEDIA_ERR_SRC_NOT_SUPPORTED) AND
-								// Error message contains "URL safety check" (this is the SPECIFIC CSP indicator)
-								// Do NOT treat error code 2 (network errors like 404/403) as CSP
-								if (error.code === 4) {
-									const errorMessage = error.message || '';
-									// "URL safety check" is the specific message browsers show when CSP blocks blob URLs
-									if (errorMessage.includes('URL safety check')) {
-										if (replacementHlsInstance.value) {
-											setReplacementCspError();
-										}
-									}
-								}
-								// All other errors (404, 403, network errors, etc.) are NOT CSP errors
-							}
-						};
-						
-						videoEl.addEventListener('error', handleVideoError);
-						
-						// Also try to detect CSP errors by checking if video fails to load after a delay
-						// Only check if we're using blob URLs (which CSP blocks)
-						const checkForCspError = setTimeout(() => {
-							if (replacementHlsInstance.value && videoEl.error) {
-								const error = videoEl.error;
-								const errorMessage = error.message || '';
-								const videoSrc = videoEl.src || videoEl.getAttribute('src') || '';
-								
-								// ONLY treat as CSP if error code is 4 with "URL safety check" message
-								// Do NOT treat error code 2 (network errors like 404/403) as CSP
-								if (error.code === 4 && errorMessage.includes('URL safety check')) {
-									setReplacementCspError();
-								}
-							}
-						}, 2000);
-						
-						videoEl.addEventListener('loadedmetadata', () => {
-							clearTimeout(checkForCspError);
-						}, { once: true });
-						
-						// Listen for HLS.js errors
-						hls.on(Hls.Events.ERROR, (event: any, data: any) => {
-							if (data?.fatal) {
-								let errorMessage = '';
-								if (data.error) {
-									errorMessage = data.error.message || String(data.error);
-								} else if (data.details) {
-									errorMessage = data.details;
-								}
-								
-								// Only treat as CSP error if:
-								// 1. Error message explicitly mentions CSP or blob URL blocking
-								// 2. OR it's a network error AND the stream URL is a blob URL
-								const isNetworkError = data.type === Hls.ErrorTypes.NETWORK_ERROR;
-								const streamUrlIsBlob = streamUrl && streamUrl.startsWith('blob:');
-								const errorMessageIndicatesCsp = errorMessage.includes('blob') && errorMessage.includes('blocked');
-								
-								// Only set CSP error if we have clear evidence of CSP violation
-								if (errorMessageIndicatesCsp) {
-									setReplacementCspError();
-								} else if (isNetworkError && streamUrlIsBlob) {
-									// Network error with blob URL is likely CSP
-									setReplacementCspError();
-								}
-							}
-						});
-						
-						hls.loadSource(streamUrl);
-						hls.attachMedia(videoEl);
-						replacementHlsInstance.value = hls;
-						
-						const updateHlsQuality = () => {
-							if (hls.levels && hls.levels.length > 0) {
-								const currentLevelIndex = hls.currentLevel;
-								if (currentLevelIndex >= 0 && currentLevelIndex < hls.levels.length) {
-									replacementQuality.value = formatQuality(hls.levels[currentLevelIndex].height);
-								} else if (hls.levels.length > 0) {
-									const sortedLevels = [...hls.levels].sort((a, b) => (b.height || 0) - (a.height || 0));
-									replacementQuality.value = formatQuality(sortedLevels[0].height);
-								}
-								updateReplacementPlayerInfo();
-							}
-						};
-
-						hls.on(Hls.Events.LEVEL_SWITCHED, updateHlsQuality);
-						hls.on(Hls.Events.LEVEL_LOADED, updateHlsQuality);
-						hls.on(Hls.Events.MANIFEST_PARSED, () => {
-							setTimeout(updateHlsQuality, 100);
-						});
-						
-						const onPlayHandler = () => {
-							if (hls) {
-								hls.startLoad();
-								videoEl.removeEventListener('play', onPlayHandler);
-							}
-						};
-						videoEl.addEventListener('play', onPlayHandler);
-					} else {
-						setupHlsPlayer(videoEl, streamUrl);
-					}
-				}
+			if (streamUrl) {
+				playReplacementStream(replacementVideoElement.value, streamUrl);
 			}
 		} else {
 			// Switch to File
 			const mp4 = mp4Url.value;
 			if (mp4) {
-				replacementVideoElement.value.src = mp4;
-				replacementVideoElement.value.load();
+				setupReplacementEngine(replacementVideoElement.value, mp4, 'native');
 			}
 		}
 		
@@ -495,7 +269,7 @@ export function useReplacementPlayer(
 		
 		const fileData = currentFileData.value;
 		const streamUrl = streamUrlFromValue.value;
-		const isDash = streamUrl ? isDashStream(streamUrl) : false;
+		const isDash = replacementStreamFormat.value ? replacementStreamFormat.value === 'dash' : !!streamUrl && isDashStream(streamUrl);
 		
 		// Title: filename_download or id
 		const title = fileData ? (fileData.filename_download || fileData.id) : '';
@@ -657,8 +431,7 @@ export function useReplacementPlayer(
 					// Store reference to the original video element
 					replacementVideoElement.value = defaultVideo as HTMLVideoElement;
 					defaultVideo.dataset.replacedByHls = 'true';
-					defaultVideo.src = mp4;
-					defaultVideo.load();
+					setupReplacementEngine(defaultVideo as HTMLVideoElement, mp4, 'native');
 					return;
 				}
 				return;
@@ -714,333 +487,8 @@ export function useReplacementPlayer(
 				void videoEl.offsetWidth;
 			};
 			
-			// Check if it's a DASH stream
-			if (isDashStream(streamUrl)) {
-				// Create DASH instance for replacement player to track quality
-				try {
-					const dashPlayer = dashjs.MediaPlayer().create();
-					
-					// Configure player settings
-					dashPlayer.updateSettings({
-						streaming: {
-							buffer: {
-								bufferTimeAtTopQuality: 30,
-								bufferTimeAtTopQualityLongForm: 30,
-								longFormContentDurationThreshold: 600,
-								initialBufferLevel: 30,
-								fastSwitchEnabled: true
-							},
-							abr: {
-								useDefaultABRRules: true,
-								initialBitrate: {
-									audio: -1,
-									video: -1
-								}
-							}
-						}
-					});
-
-					// Helper function to update quality - using the same approach as useDashPlayer.ts
-					const updateReplacementDashQuality = (representation?: any) => {
-						try {
-							const playerAny = dashPlayer as any;
-							let currentRep = representation;
-							
-							// If representation provided from event, use it
-							if (currentRep && currentRep.height) {
-								const quality = formatQuality(currentRep.height);
-								if (quality) {
-									replacementQuality.value = quality;
-									updateReplacementPlayerInfo();
-									return;
-								}
-							}
-							
-							// Try new API methods first
-							if (!currentRep) {
-								currentRep = playerAny.getCurrentRepresentationForType?.('video');
-							}
-							
-							// Try old API methods as fallback (for older dash.js versions)
-							if (!currentRep) {
-								const qualityIndex = playerAny.getQualityFor?.('video');
-								if (qualityIndex !== undefined && qualityIndex !== null) {
-									const bitrateList = playerAny.getBitrateInfoListFor?.('video') || [];
-									if (bitrateList[qualityIndex]) {
-										currentRep = bitrateList[qualityIndex];
-									}
-								}
-							}
-							
-							// Try getting from representations list
-							if (!currentRep) {
-								const representations = playerAny.getRepresentationsByType?.('video') || [];
-								if (representations.length > 0) {
-									// Try to find current representation by quality index
-									const qualityIndex = playerAny.getQualityFor?.('video');
-									if (qualityIndex !== undefined && qualityIndex !== null && representations[qualityIndex]) {
-										currentRep = representations[qualityIndex];
-									} else {
-										currentRep = representations[0];
-									}
-								}
-							}
-							
-							// Fallback: use video element dimensions
-							if (!currentRep || !currentRep.height) {
-								const videoHeight = videoEl.videoHeight;
-								if (videoHeight && videoHeight > 0) {
-									const quality = formatQuality(videoHeight);
-									if (quality) {
-										replacementQuality.value = quality;
-										updateReplacementPlayerInfo();
-										return;
-									}
-								}
-							}
-							
-							// If we have a representation with height, use it
-							if (currentRep && currentRep.height) {
-								const quality = formatQuality(currentRep.height);
-								if (quality) {
-									replacementQuality.value = quality;
-									updateReplacementPlayerInfo();
-								}
-							}
-						} catch (error) {
-							console.warn('[ReplacementPlayer] Error updating DASH quality:', error);
-						}
-					};
-
-					// Set up event listeners for quality tracking
-					const Events = dashjs.MediaPlayer.events;
-					if (Events) {
-						// Listen for stream initialized - representations are available after this
-						if (Events.STREAM_INITIALIZED) {
-							dashPlayer.on(Events.STREAM_INITIALIZED, () => {
-								setTimeout(updateReplacementDashQuality, 200);
-							});
-						}
-						
-						// Listen for quality changes - event provides newRepresentation directly
-						if (Events.QUALITY_CHANGE_RENDERED) {
-							dashPlayer.on(Events.QUALITY_CHANGE_RENDERED, (e: any) => {
-								// Use the representation from the event like the reference player does
-								if (e && e.newRepresentation && e.mediaType === 'video') {
-									updateReplacementDashQuality(e.newRepresentation);
-								} else {
-									updateReplacementDashQuality();
-								}
-							});
-						}
-					}
-
-					// Error handler for video element errors (CSP detection ONLY)
-					const handleReplaceDashVideoError = (event: Event) => {
-						const error = (event.target as HTMLVideoElement)?.error;
-						if (error) {
-							// ONLY treat as CSP error if:
-							// Error code is 4 (MEDIA_ERR_SRC_NOT_SUPPORTED) AND
-							// Error message contains "URL safety check" (this is the SPECIFIC CSP indicator)
-							// Do NOT treat error code 2 (network errors like 404/403) as CSP
-							if (error.code === 4) {
-								const errorMessage = error.message || '';
-								// "URL safety check" is the specific message browsers show when CSP blocks blob URLs
-								if (errorMessage.includes('URL safety check')) {
-									if (replacementDashInstance.value) {
-										setReplacementCspError();
-									}
-								}
-							}
-							// All other errors (404, 403, network errors, etc.) are NOT CSP errors
-						}
-					};
-					
-					videoEl.addEventListener('error', handleReplaceDashVideoError);
-					
-					// Also try to detect CSP errors by checking if video fails to load after a delay
-					// Only check if we're using blob URLs (which CSP blocks)
-					const checkForReplaceDashCspError = setTimeout(() => {
-						if (replacementDashInstance.value && videoEl.error) {
-							const error = videoEl.error;
-							const errorMessage = error.message || '';
-							
-							// ONLY treat as CSP if error code is 4 with "URL safety check" message
-							// Do NOT treat error code 2 (network errors like 404/403) as CSP
-							if (error.code === 4 && errorMessage.includes('URL safety check')) {
-								setReplacementCspError();
-							}
-						}
-					}, 2000);
-					
-					// Initialize player
-					dashPlayer.initialize(videoEl, streamUrl, false);
-					
-					// Store instance
-					replacementDashInstance.value = dashPlayer;
-					
-					// Listen for video events to update quality
-					videoEl.addEventListener('loadedmetadata', () => {
-						clearTimeout(checkForReplaceDashCspError);
-						setTimeout(() => {
-							updateReplacementDashQuality();
-						}, 300);
-					});
-					
-					videoEl.addEventListener('playing', () => {
-						setTimeout(() => {
-							updateReplacementDashQuality();
-						}, 500);
-					});
-					
-					// Initial quality check with retries
-					setTimeout(() => {
-						updateReplacementDashQuality();
-					}, 500);
-					setTimeout(() => {
-						updateReplacementDashQuality();
-					}, 1500);
-					setTimeout(() => {
-						updateReplacementDashQuality();
-					}, 3000);
-				} catch (error) {
-					console.error('[ReplacementPlayer] Error setting up DASH:', error);
-					// Fallback to setupDashPlayer
-					setupDashPlayer(videoEl, streamUrl);
-				}
-			} else if (Hls.isSupported()) {
-				// For HLS.js, create a custom HLS instance to track level changes
-				// Create HLS instance specifically for replacement player to track events
-				const hls = new Hls({
-					enableWorker: true,
-					lowLatencyMode: true,
-					backBufferLength: 90,
-					autoStartLoad: true,
-					maxBufferLength: 3,
-					maxMaxBufferLength: 6,
-					maxBufferSize: 60 * 1000 * 1000
-				});
-				
-				// Error handler for video element errors (CSP detection ONLY)
-				const handleReplaceHlsVideoError = (event: Event) => {
-					const error = (event.target as HTMLVideoElement)?.error;
-					if (error) {
-						// ONLY treat as CSP error if:
-						// Error code is 4 (MEDIA_ERR_SRC_NOT_SUPPORTED) AND
-						// Error message contains "URL safety check" (this is the SPECIFIC CSP indicator)
-						// Do NOT treat error code 2 (network errors like 404/403) as CSP
-						if (error.code === 4) {
-							const errorMessage = error.message || '';
-							// "URL safety check" is the specific message browsers show when CSP blocks blob URLs
-							if (errorMessage.includes('URL safety check')) {
-								if (replacementHlsInstance.value) {
-									setReplacementCspError();
-								}
-							}
-						}
-						// All other errors (404, 403, network errors, etc.) are NOT CSP errors
-					}
-				};
-				
-				videoEl.addEventListener('error', handleReplaceHlsVideoError);
-				
-					// Also try to detect CSP errors by checking if video fails to load after a delay
-					// Only check if we're using blob URLs (which CSP blocks)
-					const checkForReplaceHlsCspError = setTimeout(() => {
-						if (replacementHlsInstance.value && videoEl.error) {
-							const error = videoEl.error;
-							const errorMessage = error.message || '';
-							
-							// ONLY treat as CSP if error code is 4 with "URL safety check" message
-							// Do NOT treat error code 2 (network errors like 404/403) as CSP
-							if (error.code === 4 && errorMessage.includes('URL safety check')) {
-								setReplacementCspError();
-							}
-						}
-					}, 2000);
-				
-				videoEl.addEventListener('loadedmetadata', () => {
-					clearTimeout(checkForReplaceHlsCspError);
-				}, { once: true });
-				
-				// Listen for HLS.js errors
-				hls.on(Hls.Events.ERROR, (event: any, data: any) => {
-					if (data?.fatal) {
-						let errorMessage = '';
-						if (data.error) {
-							errorMessage = data.error.message || String(data.error);
-						} else if (data.details) {
-							errorMessage = data.details;
-						}
-						
-						// ONLY treat as CSP error if error message explicitly mentions CSP blocking blob URLs
-						// Do NOT treat network errors (404, 403, etc.) as CSP
-						const errorMessageIndicatesCsp = isCspError(errorMessage) || 
-							(errorMessage.includes('blob') && errorMessage.includes('blocked') && errorMessage.includes('Content Security Policy'));
-						
-						// Only set CSP error if we have clear evidence of CSP violation
-						if (errorMessageIndicatesCsp) {
-							setReplacementCspError();
-						}
-						// All other errors (404, 403, network errors, etc.) are NOT CSP errors
-					}
-				});
-				
-				hls.loadSource(streamUrl);
-				hls.attachMedia(videoEl);
-				
-				// Store HLS instance for cleanup
-				replacementHlsInstance.value = hls;
-				
-				// Helper to update quality for replacement player
-				const updateReplacementQuality = () => {
-					if (hls.levels && hls.levels.length > 0) {
-						const currentLevelIndex = hls.currentLevel;
-						if (currentLevelIndex >= 0 && currentLevelIndex < hls.levels.length) {
-							const level = hls.levels[currentLevelIndex];
-							replacementQuality.value = formatQuality(level.height);
-						} else if (hls.levels.length > 0) {
-							const sortedLevels = [...hls.levels].sort((a, b) => (b.height || 0) - (a.height || 0));
-							replacementQuality.value = formatQuality(sortedLevels[0].height);
-						}
-						updateReplacementPlayerInfo();
-					}
-				};
-
-				// Listen for level changes (quality switches) - this is the key fix
-				hls.on(Hls.Events.LEVEL_SWITCHED, () => {
-					ensureFullWidth();
-					updateReplacementQuality();
-					// Also trigger after a delay to ensure layout has updated
-					setTimeout(ensureFullWidth, 50);
-				});
-				
-				hls.on(Hls.Events.LEVEL_LOADED, () => {
-					ensureFullWidth();
-					updateReplacementQuality();
-				});
-				
-				// Listen for manifest parsed to ensure initial sizing
-				hls.on(Hls.Events.MANIFEST_PARSED, () => {
-					ensureFullWidth();
-					setTimeout(() => {
-						ensureFullWidth();
-						updateReplacementQuality();
-					}, 100);
-				});
-				
-				// Add play event listener
-				const onPlayHandler = () => {
-					if (hls) {
-						hls.startLoad();
-						videoEl.removeEventListener('play', onPlayHandler);
-					}
-				};
-				videoEl.addEventListener('play', onPlayHandler);
-			} else {
-				// For native HLS (Safari), use the setupHlsPlayer
-				setupHlsPlayer(videoEl, streamUrl);
-			}
+			// Play the stream through the replacement engine to track quality (format is probed or set in the options)
+			playReplacementStream(videoEl, streamUrl);
 			
 			// Hide the default video's loading spinner
 			videoEl.setAttribute('preload', 'none');
@@ -1087,26 +535,15 @@ export function useReplacementPlayer(
 
 	// Cleanup replacement player
 	const cleanupReplacementPlayer = () => {
-		if (replacementHlsInstance.value) {
-			replacementHlsInstance.value.destroy();
-			replacementHlsInstance.value = null;
-		}
-		if (replacementDashInstance.value) {
-			try {
-				replacementDashInstance.value.reset();
-				replacementDashInstance.value.destroy();
-			} catch (error) {
-				console.warn('[ReplacementPlayer] Error cleaning up DASH:', error);
-			}
-			replacementDashInstance.value = null;
-		}
+		// Destroys the engine and resets quality, live state and playback error
+		cleanupReplacementEngine();
+		replacementFallbackNotice.value = null;
 		if (replacementVideoElement.value) {
 			replacementVideoElement.value.dataset.replacedByHls = 'false';
 			replacementVideoElement.value = null;
 		}
-		
-		// Reset quality
-		replacementQuality.value = null;
+		document.querySelector('.file-preview .replacement-player-quality')?.remove();
+		document.querySelector('.file-preview .replacement-player-live')?.remove();
 	};
 
 	const togglePlaybackFormat = (videoElement: Ref<HTMLVideoElement | null>, setupVideoPlayer: () => void) => {
@@ -1133,13 +570,19 @@ export function useReplacementPlayer(
 		}
 	};
 
+	// Reflect the engine state in the file preview
+	watch([replacementQuality, replacementStreamFormat], () => updateReplacementPlayerInfo());
+	watch([replacementQualityLevels, replacementSelectedQuality], () => updateReplacementQualityMenu());
+	watch([replacementPlaybackError, replacementFallbackNotice], () => updateReplacementPlayerErrorDisplay());
+	watch([replacementIsLive, replacementLiveLatency, replacementIsBehindLive], () => updateReplacementLiveButton());
+
 	return {
 		replacementVideoElement,
-		replacementHlsInstance,
+		replacementEngine,
 		currentFileId,
 		currentFileType,
 		mp4Url,
-		replacementCspError,
+		replacementPlaybackError,
 		replaceDefaultVideoPlayer,
 		updateReplacementPlayer,
 		cleanupReplacementPlayer,
@@ -0,0 +1,56 @@
+/**
+ * Composable for the stream health check of the current source
+ */
+import { ref, shallowRef, type Ref } from 'vue';
+import { runStreamDiagnostics, type PlayerEngineKind, type StreamDiagnosticsReport } from '../engines';
+
+interface StreamDiagnosticsOptions {
+	streamUrl: Ref<string | null>;
+	streamFormat: Ref<PlayerEngineKind | null>;
+}
+
+export function useStreamDiagnostics(options: StreamDiagnosticsOptions) {
+	const isRunningDiagnostics = ref(false);
+	const diagnosticsReport = shallowRef<StreamDiagnosticsReport | null>(null);
+	const diagnosticsError = ref<string | null>(null);
+	let runId = 0;
+
+	const runDiagnostics = async () => {
+		const url = options.streamUrl.value;
+		if (!url || isRunningDiagnostics.value) return;
+
+		const currentRunId = ++runId;
+		isRunningDiagnostics.value = true;
+		diagnosticsError.value = null;
+		try {
+			const report = await runStreamDiagnostics(url, options.streamFormat.value);
+			// Closed or another stream loaded meanwhile
+			if (currentRunId !== runId) return;
+			diagnosticsReport.value = report;
+		} catch (error) {
+			console.error('[StreamDiagnostics] Health check failed:', error);
+			if (currentRunId === runId) {
+				diagnosticsError.value = (error as Error)?.message || 'The health check failed';
+			}
+		} finally {
+			if (currentRunId === runId) {
+				isRunningDiagnostics.value = false;
+			}
+		}
+	};
+
+	const clearDiagnostics = () => {
+		runId++;
+		isRunningDiagnostics.value = false;
+		diagnosticsReport.value = null;
+		diagnosticsError.value = null;
+	};
+
+	return {
+		isRunningDiagnostics,
+		diagnosticsReport,
+		diagnosticsError,
+		runDiagnostics,
+		clearDiagnostics
+	};
+}
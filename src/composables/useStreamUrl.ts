@@ -1,9 +1,11 @@
 /**
  * Composable for generating stream URLs with optional secure token authentication
  */
-import { computed } from 'vue';
-import CryptoJS from 'crypto-js';
+import { computed, onUnmounted, ref, toRaw, unref, type MaybeRef } from 'vue';
 import { normalizeApiBaseUrl } from '../utils';
+import { buildProviderUrl, buildStreamUrl, type StreamUrlConfig } from '../shared/streamUrl';
+import { getTokenAlgorithm } from '../shared/tokenAlgorithms';
+import { getStreamProvider } from '../shared/providers';
 
 interface StreamUrlOptions {
 	hostUrl?: string;
@@ -11,244 +13,244 @@ interface StreamUrlOptions {
 	streamSecret?: string;
 	includeIp?: boolean;
 	expiresInMinutes?: number;
+	tokenAlgorithm?: string;
+	tokenKeyId?: string;
+	tokenAcl?: string;
+	tokenStartOffset?: number | null;
+	tokenName?: string;
+	signOnServer?: boolean;
+	provider?: string | null;
+	streamFormat?: string | null;
+	collection?: string;
+	field?: string;
+	// Item the stream link is stored in, a ref when it is looked up (display)
+	primaryKey?: MaybeRef<string | number | null | undefined>;
 	api: any;
 }
 
-/**
- * Generate secure path hash for token-based authentication
- */
-function generateSecurePathHash(
-	expires: string,
-	ip: string | null,
-	secret: string,
-	includeIp: boolean = false
-): string {
-	if (!expires) {
-		throw new Error('Must provide expires');
-	}
-	if (!secret) {
-		// Return empty string if no secret (stream secret is optional)
-		return '';
-	}
-
-	// Generate MD5 hash using crypto-js (browser-compatible)
-	// Include IP only if includeIp is true and ip is provided
-	const input = includeIp && ip ? expires + ' ' + ip + ' ' + secret : expires + ' ' + secret;
-	const binaryHash = CryptoJS.MD5(input);
-	const base64Value = CryptoJS.enc.Base64.stringify(binaryHash);
-	
-	// Apply URL-safe base64 encoding (same as Node.js Buffer.toString('base64'))
-	return base64Value.replace(/=/g, '').replace(/\+/g, '-').replace(/\//g, '_');
+// Answer of the sign endpoint
+interface SignedStream {
+	url: string | null;
+	thumbnailUrl?: string | null;
+	// Unix timestamp (seconds) the token expires
+	expires?: number;
+}
+
+interface SignedUrlEntry {
+	url: string;
+	// Unix timestamps (seconds)
+	signedAt: number;
+	expires: number | null;
 }
 
+// Cached signatures are renewed when 80% of their lifetime has passed, like the token refresh of the player
+const RESIGN_RATIO = 0.8;
+// Failed signatures are retried after 5 seconds, doubling up to 5 minutes
+const SIGN_RETRY_DELAY = 5000;
+const SIGN_RETRY_MAX_DELAY = 5 * 60 * 1000;
+
+const nowInSeconds = () => Math.round(Date.now() / 1000);
+
 /**
  * Get stream URL from stream link
  */
 export function useStreamUrl(options: StreamUrlOptions) {
 	const apiBaseUrl = computed(() => normalizeApiBaseUrl(options.api));
 
+	// Stream links signed by the endpoint, keyed by stream link - entries are set per key, so only players
+	// of that stream link react to a new signature
+	const signedUrls = ref<Record<string, SignedUrlEntry>>({});
+	// Provider thumbnails signed (or looked up) together with the stream links
+	const signedThumbnails = ref<Record<string, string>>({});
+	const pendingSignatures = new Set<string>();
+	// Stream links blocked until their retry, and their consecutive failures
+	const failedSignatures = new Set<string>();
+	const failedAttempts = new Map<string, number>();
+	const retryTimers = new Set<ReturnType<typeof setTimeout>>();
+
+	// Tokens including the client IP can only be generated server-side, the browser doesn't know its public IP
+	// The same applies to token algorithms that need a server-side signer (e.g., RSA for CloudFront)
+	// Providers bring their own token algorithm, used for signed playback only, or are looked up in their API
+	// Their private keys (Mux, Cloudflare) are only read from the environment - signed playback needs Sign on Server
+	const provider = getStreamProvider(options.provider);
+	const signOnServer = !!options.signOnServer || !!options.includeIp || (provider
+		? !!provider.resolve
+		: !!getTokenAlgorithm(options.tokenAlgorithm).serverOnly);
+	const streamSecret = provider && getTokenAlgorithm(provider.tokenAlgorithm).serverOnly ? '' : options.streamSecret || '';
+
+	const getDefaultHostUrl = (): string => {
+		// Construct the host URL from apiBaseUrl or window.location
+		const baseUrl = apiBaseUrl.value || window.location.origin + '/api';
+		return baseUrl.replace('/api', '') || window.location.origin;
+	};
+
+	// Stream links and signing times behind the signed URLs handed out, to sign them again for token refresh
+	const signaturesByUrl = new Map<string, { streamLink: string; signedAt: number; expires: number | null }>();
+
+	// Sign a stream link in the endpoint
+	const fetchSignedUrl = async (streamLink: string): Promise<SignedStream> => {
+		const response = await options.api.post('/video-player/sign', {
+			collection: options.collection,
+			field: options.field,
+			primaryKey: unref(options.primaryKey) ?? null,
+			value: streamLink
+		});
+		return response.data.data;
+	};
+
+	// Block a failed stream link for a backoff - server and network errors are retried on their own,
+	// client errors (e.g., missing permissions) by the next request of the stream link
+	const blockFailedSignature = (streamLink: string, status: number | undefined) => {
+		const attempts = (failedAttempts.get(streamLink) ?? 0) + 1;
+		failedAttempts.set(streamLink, attempts);
+		failedSignatures.add(streamLink);
+
+		const retry = !status || status >= 500 || status === 408 || status === 429;
+		const timer = setTimeout(() => {
+			retryTimers.delete(timer);
+			failedSignatures.delete(streamLink);
+			if (retry) requestSignedUrl(streamLink);
+		}, Math.min(SIGN_RETRY_MAX_DELAY, SIGN_RETRY_DELAY * 2 ** (attempts - 1)));
+		retryTimers.add(timer);
+	};
+
+	// Signed URLs are reused until 80% of their lifetime has passed
+	const isFreshSignature = (entry: SignedUrlEntry | undefined): entry is SignedUrlEntry => {
+		if (!entry) return false;
+		if (entry.expires === null) return true;
+		return nowInSeconds() < entry.signedAt + (entry.expires - entry.signedAt) * RESIGN_RATIO;
+	};
+
+	// Request a signed URL from the endpoint - the result lands in signedUrls
+	const requestSignedUrl = async (streamLink: string) => {
+		if (pendingSignatures.has(streamLink) || failedSignatures.has(streamLink)) {
+			return;
+		}
+		pendingSignatures.add(streamLink);
+		try {
+			const { url: signedUrl, thumbnailUrl, expires } = await fetchSignedUrl(streamLink);
+			failedAttempts.delete(streamLink);
+			if (thumbnailUrl) {
+				signedThumbnails.value[streamLink] = thumbnailUrl;
+			}
+			if (signedUrl) {
+				const signedAt = nowInSeconds();
+				signaturesByUrl.set(signedUrl, { streamLink, signedAt, expires: expires ?? null });
+				signedUrls.value[streamLink] = { url: signedUrl, signedAt, expires: expires ?? null };
+			}
+		} catch (error: any) {
+			console.error('Failed to sign stream URL on server:', error);
+			blockFailedSignature(streamLink, error?.response?.status);
+		} finally {
+			pendingSignatures.delete(streamLink);
+		}
+	};
+
+	// Check if a stream link is still waiting for its server-side signature
+	const isSigningStreamUrl = (streamLink: string): boolean => {
+		return signOnServer && pendingSignatures.has(streamLink);
+	};
+
+	const getUrlConfig = (): StreamUrlConfig => ({
+		hostUrl: options.hostUrl,
+		urlSchema: options.urlSchema,
+		streamSecret,
+		expiresInMinutes: options.expiresInMinutes,
+		tokenAlgorithm: options.tokenAlgorithm,
+		tokenKeyId: options.tokenKeyId,
+		tokenAcl: options.tokenAcl,
+		tokenStartOffset: options.tokenStartOffset,
+		tokenName: options.tokenName,
+		provider: options.provider,
+		streamFormat: options.streamFormat,
+		defaultHostUrl: getDefaultHostUrl(),
+		origin: window.location.origin
+	});
+
 	const getStreamUrl = (streamLink: string): string | null => {
 		if (!streamLink) return null;
 
-		// If streamLink is already a fully qualified URL (http:// or https://), return it directly
-		// This allows external HLS streams (e.g., Cloudflare Stream) to work without hostUrl/secret configuration
+		// Fully qualified URLs are never signed, return them directly
 		if (streamLink.startsWith('http://') || streamLink.startsWith('https://')) {
 			return streamLink;
 		}
-		
-		try {
-			// Get stream secret
-			const streamSecret = options.streamSecret || '';
-			
-			// Normalize streamLink - remove leading slash if present (we'll handle it in the schema)
-			// But keep it if it's part of the path structure
-			let normalizedStreamLink = streamLink;
-			if (normalizedStreamLink.startsWith('/')) {
-				normalizedStreamLink = normalizedStreamLink.substring(1);
-			}
-			
-			// If url_schema is provided, use it
-			if (options.urlSchema) {
-				let urlSchema = options.urlSchema;
-				
-				// Decode URL-encoded characters (in case Directus encoded the template placeholders)
-				try {
-					urlSchema = decodeURIComponent(urlSchema);
-				} catch (e) {
-					// If decoding fails, use original value
-				}
-				
-				// Get host URL
-				let hostUrl = options.hostUrl || '';
-				
-				// If hostUrl is not set, construct it from apiBaseUrl or window.location
-				if (!hostUrl) {
-					const baseUrl = apiBaseUrl.value || window.location.origin + '/api';
-					hostUrl = baseUrl.replace('/api', '') || window.location.origin;
-				}
-				
-				// Ensure hostUrl has a protocol
-				if (!hostUrl.startsWith('http://') && !hostUrl.startsWith('https://')) {
-					hostUrl = window.location.origin;
-				}
-				
-				// Normalize hostUrl - remove trailing slash
-				hostUrl = hostUrl.replace(/\/+$/, '');
-				
-				// Replace {{host_url}} placeholder
-				urlSchema = urlSchema.replace(/\{\{host_url\}\}/g, hostUrl);
-				
-				// Check for other placeholders
-				const hasTokenPlaceholder = urlSchema.includes('{{token}}');
-				const hasExpiresPlaceholder = urlSchema.includes('{{expires}}');
-				const hasItemPlaceholder = urlSchema.includes('{{item_field}}');
-				
-				// Replace {{item_field}} placeholder with the streamLink value (doesn't require secret)
-				if (hasItemPlaceholder) {
-					urlSchema = urlSchema.replace(/\{\{item_field\}\}/g, normalizedStreamLink);
-				}
-				
-				// Handle token and expires placeholders
-				if (hasTokenPlaceholder || hasExpiresPlaceholder) {
-					if (!streamSecret) {
-						// If no secret, remove token/expires placeholders
-						urlSchema = urlSchema.replace(/\{\{token\}\}/g, '').replace(/\{\{expires\}\}/g, '');
-					} else {
-						// Generate token and expires
-						const includeIp = options.includeIp ?? false;
-						const ip = includeIp ? '' : null;
-						
-						// Generate expiration timestamp (default: 60 minutes)
-						const expiresInMinutes = options.expiresInMinutes ?? 60;
-						const expiresTimestamp = new Date(Date.now() + (expiresInMinutes * 60 * 1000)).getTime();
-						const expires = String(Math.round(expiresTimestamp / 1000));
-						
-						// Generate secure token
-						const token = generateSecurePathHash(expires, ip, streamSecret, includeIp);
-						
-						// Replace {{token}} and {{expires}} placeholders
-						urlSchema = urlSchema
-							.replace(/\{\{token\}\}/g, token)
-							.replace(/\{\{expires\}\}/g, expires);
-					}
-				}
-				
-				// If {{item_field}} was not in the schema, append streamLink at the end
-				if (!hasItemPlaceholder) {
-					// Ensure proper path separator
-					const separator = urlSchema.endsWith('/') ? '' : '/';
-					return urlSchema + separator + normalizedStreamLink;
-				}
-				
-				// {{item_field}} was replaced, return the schema as-is
-				return urlSchema;
-			}
-			
-			// Fallback to old behavior (backward compatibility)
-			// Get hostUrl template
-			let hostUrlTemplate = options.hostUrl || '';
-			
-			// If hostUrl is not set, construct it from apiBaseUrl or window.location
-			if (!hostUrlTemplate) {
-				const baseUrl = apiBaseUrl.value || window.location.origin + '/api';
-				hostUrlTemplate = baseUrl.replace('/api', '') || window.location.origin;
-			}
-			
-			// Ensure hostUrl has a protocol
-			if (!hostUrlTemplate.startsWith('http://') && !hostUrlTemplate.startsWith('https://')) {
-				hostUrlTemplate = window.location.origin;
-			}
-			
-			// Decode URL-encoded characters (in case Directus encoded the template placeholders)
-			try {
-				hostUrlTemplate = decodeURIComponent(hostUrlTemplate);
-			} catch (e) {
-				// If decoding fails, use original value
-			}
-			
-			// Normalize hostUrlTemplate - remove trailing slash
-			hostUrlTemplate = hostUrlTemplate.replace(/\/+$/, '');
-			
-			// Normalize streamLink - ensure it starts with /
-			if (!streamLink.startsWith('/')) {
-				streamLink = '/' + streamLink;
-			}
-			
-			// Check if template placeholders exist FIRST - only add token/expires if placeholders are present
-			// Support {{token}}, {{expires}}, and {{item_field}} placeholders in hostUrl
-			const hasTokenPlaceholder = hostUrlTemplate.includes('{{token}}');
-			const hasExpiresPlaceholder = hostUrlTemplate.includes('{{expires}}');
-			const hasItemPlaceholder = hostUrlTemplate.includes('{{item_field}}');
-			const hasTemplateSyntax = hasTokenPlaceholder || hasExpiresPlaceholder || hasItemPlaceholder;
-			
-			// Replace {{item_field}} placeholder with streamLink value (doesn't require secret)
-			if (hasItemPlaceholder) {
-				// Remove leading slash from streamLink for replacement
-				const streamLinkValue = streamLink.startsWith('/') ? streamLink.substring(1) : streamLink;
-				hostUrlTemplate = hostUrlTemplate.replace(/\{\{item_field\}\}/g, streamLinkValue);
+
+		// Sign on server: return the signed URL once available (reactive), null until then
+		// Signatures close to their expiry are renewed first (e.g., a playlist entry played again later)
+		if (signOnServer) {
+			const signedUrl = signedUrls.value[streamLink];
+			if (isFreshSignature(signedUrl)) {
+				return signedUrl.url;
 			}
-			
-			if (hasTemplateSyntax) {
-				// Template syntax detected - we need to replace placeholders
-				if (!streamSecret && (hasTokenPlaceholder || hasExpiresPlaceholder)) {
-					// If no secret but has token/expires placeholders, remove them and return URL
-					const normalizedHost = hostUrlTemplate.replace(/\{\{token\}\}/g, '').replace(/\{\{expires\}\}/g, '');
-					// Normalize - remove trailing slash
-					const cleanHost = normalizedHost.replace(/\/+$/, '');
-					// If {{item_field}} was not in template, append streamLink
-					if (!hasItemPlaceholder) {
-						return cleanHost + streamLink;
-					}
-					return cleanHost;
-				}
-				
-				// If we have token/expires placeholders, generate and replace them
-				if (hasTokenPlaceholder || hasExpiresPlaceholder) {
-					// We have secret and template syntax - generate token/expires and replace placeholders
-					// Get includeIp option (default to false)
-					const includeIp = options.includeIp ?? false;
-					
-					// Get IP address if needed (in browser, we can't get real IP, so use empty string)
-					// The server-side validation should handle the actual IP check
-					const ip = includeIp ? '' : null;
-					
-					// Generate expiration timestamp (default: 60 minutes)
-					const expiresInMinutes = options.expiresInMinutes ?? 60;
-					const expiresTimestamp = new Date(Date.now() + (expiresInMinutes * 60 * 1000)).getTime();
-					const expires = String(Math.round(expiresTimestamp / 1000));
-					
-					// Generate secure token
-					const token = generateSecurePathHash(expires, ip, streamSecret, includeIp);
-					
-					// Replace {{token}} and {{expires}} placeholders
-					hostUrlTemplate = hostUrlTemplate
-						.replace(/\{\{token\}\}/g, token)
-						.replace(/\{\{expires\}\}/g, expires);
-				}
-				
-				// Normalize - remove trailing slash from hostUrl
-				const streamUrl = hostUrlTemplate.replace(/\/+$/, '');
-				
-				// If {{item_field}} was not in template, append streamLink
-				if (!hasItemPlaceholder) {
-					return streamUrl + streamLink;
-				}
-				
-				// {{item_field}} was replaced, return as-is
-				return streamUrl;
-			} else {
-				// No template syntax - just append streamLink
-				return hostUrlTemplate + streamLink;
+			requestSignedUrl(streamLink);
+			return null;
+		}
+
+		const streamUrl = buildStreamUrl(streamLink, getUrlConfig());
+
+		// Only URLs signed with a secret carry a token worth refreshing, generated now with the configured lifetime
+		if (streamUrl && streamSecret) {
+			const signedAt = nowInSeconds();
+			signaturesByUrl.set(streamUrl, { streamLink, signedAt, expires: signedAt + (options.expiresInMinutes ?? 60) * 60 });
+		}
+		return streamUrl;
+	};
+
+	// Sign the stream link behind a stream URL again, without touching the reactive URL (no player reload)
+	const refreshStreamUrl = async (streamUrl: string): Promise<string | null> => {
+		const streamLink = signaturesByUrl.get(streamUrl)?.streamLink;
+		if (!streamLink) return null;
+
+		if (!signOnServer) {
+			// getStreamUrl generates a new token on every call
+			return getStreamUrl(streamLink);
+		}
+
+		const { url: freshUrl, expires } = await fetchSignedUrl(streamLink);
+		if (freshUrl) {
+			const signedAt = nowInSeconds();
+			signaturesByUrl.set(freshUrl, { streamLink, signedAt, expires: expires ?? null });
+			// Cache the fresh signature for the next setup without changing the URL of the running player
+			toRaw(signedUrls.value)[streamLink] = { url: freshUrl, signedAt, expires: expires ?? null };
+		}
+		return freshUrl;
+	};
+
+	// When the token of a stream URL was signed and expires (unix seconds), null for URLs without token
+	const getUrlSignature = (streamUrl: string): { signedAt: number; expires: number } | null => {
+		const signature = signaturesByUrl.get(streamUrl);
+		return signature && signature.expires !== null ? { signedAt: signature.signedAt, expires: signature.expires } : null;
+	};
+
+	// Thumbnail of a provider video id, the poster when no poster image field is configured
+	const getThumbnailUrl = (streamLink: string | null | undefined): string | null => {
+		if (!provider || !streamLink || streamLink.startsWith('http://') || streamLink.startsWith('https://')) {
+			return null;
+		}
+
+		// Signed with the stream link (reactive), see requestSignedUrl
+		if (signOnServer) {
+			if (!isFreshSignature(signedUrls.value[streamLink])) {
+				requestSignedUrl(streamLink);
 			}
-		} catch (error) {
-			console.error('Failed to construct stream URL:', error);
-			return `${window.location.origin}${streamLink}`;
+			return signedThumbnails.value[streamLink] ?? null;
 		}
+
+		return buildProviderUrl(streamLink, getUrlConfig(), 'thumbnail');
 	};
 
+	onUnmounted(() => {
+		retryTimers.forEach((timer) => clearTimeout(timer));
+		retryTimers.clear();
+	});
+
 	return {
 		getStreamUrl,
+		isSigningStreamUrl,
+		refreshStreamUrl,
+		getUrlSignature,
+		getThumbnailUrl,
+		signOnServer,
 		apiBaseUrl
 	};
 }
-
@@ -0,0 +1,198 @@
+/**
+ * Composable for sidecar subtitle files (WebVTT or SRT) from a file or files (M2M) field of the item
+ */
+import { ref, watch, type Ref } from 'vue';
+import { useStores } from '@directus/extensions-sdk';
+import { convertSrtToVtt, formatTrackLabel, getLanguageFromFilename, isSrtSubtitle, type SubtitleTrack } from '../utils';
+
+interface SubtitleFile {
+	id: string;
+	title?: string | null;
+	filename_download?: string;
+}
+
+interface SubtitlesOptions {
+	api: any;
+	values: Ref<Record<string, unknown>>;
+	videoElement: Ref<HTMLVideoElement | null>;
+	subtitlesFieldName?: string;
+	collection?: string;
+	primaryKey?: string | number | null;
+}
+
+export function useSubtitles(options: SubtitlesOptions) {
+	const { useRelationsStore } = useStores();
+	const relationsStore = useRelationsStore();
+
+	const sidecarTracks = ref<SubtitleTrack[]>([]);
+	// Active sidecar track (-1 = off)
+	const selectedSidecarTrack = ref<number>(-1);
+
+	// Converted WebVTT files as blob URLs, in the order of sidecarTracks
+	let trackUrls: string[] = [];
+	let trackElements: HTMLTrackElement[] = [];
+	let loadId = 0;
+
+	// Field of the junction collection that points to directus_files (M2M), e.g. directus_files_id
+	const getJunctionFileField = (): string => {
+		const relations = relationsStore.getRelationsForField(options.collection, options.subtitlesFieldName) || [];
+		const fileRelation = relations.find((relation: any) => relation.related_collection === 'directus_files' && relation.collection !== options.collection);
+		return fileRelation?.field || 'directus_files_id';
+	};
+
+	const getFileId = (file: unknown): string | null => {
+		if (!file) return null;
+		if (typeof file === 'string') return file;
+		return (file as any).id ?? null;
+	};
+
+	// Resolve the file ids of the field value - a file (UUID or object) or a files (M2M) field
+	const resolveFileIds = async (value: unknown): Promise<string[]> => {
+		if (!value) return [];
+
+		const isFilesField = Array.isArray(value) || (typeof value === 'object' && Array.isArray((value as any).create));
+		if (!isFilesField) {
+			const fileId = getFileId(value);
+			return fileId ? [fileId] : [];
+		}
+
+		const junctionField = getJunctionFileField();
+		const fileIds = new Set<string>();
+
+		// Unsaved changes of a files field come as { create, update, delete }
+		const entries = Array.isArray(value) ? value : (value as any).create;
+		let hasSavedEntries = !Array.isArray(value);
+		entries.forEach((entry: any) => {
+			if (entry && typeof entry === 'object') {
+				const fileId = getFileId(entry[junctionField]);
+				if (fileId) fileIds.add(fileId);
+			} else {
+				// Junction primary key - the file is read from the saved item
+				hasSavedEntries = true;
+			}
+		});
+
+		if (hasSavedEntries && options.collection && options.primaryKey && options.primaryKey !== '+') {
+			const response = await options.api.get(`/items/${options.collection}/${options.primaryKey}`, {
+				params: { fields: [`${options.subtitlesFieldName}.${junctionField}`] }
+			});
+			const savedEntries = response.data.data?.[options.subtitlesFieldName as string] || [];
+			savedEntries.forEach((entry: any) => {
+				const fileId = getFileId(entry?.[junctionField]);
+				if (fileId) fileIds.add(fileId);
+			});
+		}
+
+		return Array.from(fileIds);
+	};
+
+	const loadSubtitleFile = async (file: SubtitleFile): Promise<string> => {
+		const response = await options.api.get(`/assets/${file.id}`, { responseType: 'text' });
+		const content = String(response.data ?? '');
+		// Browsers only render WebVTT, SRT is converted on the fly
+		const vtt = isSrtSubtitle(file.filename_download, content) ? convertSrtToVtt(content) : content;
+		return URL.createObjectURL(new Blob([vtt], { type: 'text/vtt' }));
+	};
+
+	const detachTrackElements = () => {
+		trackElements.forEach((trackElement) => trackElement.remove());
+		trackElements = [];
+	};
+
+	const releaseTracks = () => {
+		detachTrackElements();
+		trackUrls.forEach((url) => URL.revokeObjectURL(url));
+		trackUrls = [];
+		sidecarTracks.value = [];
+		selectedSidecarTrack.value = -1;
+	};
+
+	// Add the sidecar files as <track> elements, only the selected one is showing
+	const attachTrackElements = () => {
+		detachTrackElements();
+		const videoEl = options.videoElement.value;
+		if (!videoEl) return;
+
+		trackElements = sidecarTracks.value.map((track) => {
+			const trackElement = document.createElement('track');
+			trackElement.kind = 'subtitles';
+			trackElement.label = track.label;
+			if (track.language) trackElement.srclang = track.language;
+			trackElement.src = trackUrls[track.index];
+			trackElement.dataset.sidecarSubtitles = 'true';
+			videoEl.appendChild(trackElement);
+			return trackElement;
+		});
+		updateTrackModes();
+	};
+
+	const updateTrackModes = () => {
+		trackElements.forEach((trackElement, index) => {
+			trackElement.track.mode = index === selectedSidecarTrack.value ? 'showing' : 'disabled';
+		});
+	};
+
+	const loadSidecarSubtitles = async () => {
+		const currentLoadId = ++loadId;
+		releaseTracks();
+
+		const fieldName = options.subtitlesFieldName;
+		if (!fieldName) return;
+
+		try {
+			const fileIds = await resolveFileIds(options.values.value?.[fieldName]);
+			if (fileIds.length === 0 || currentLoadId !== loadId) return;
+
+			const response = await options.api.get('/files', {
+				params: {
+					filter: { id: { _in: fileIds } },
+					fields: ['id', 'title', 'filename_download'],
+					limit: -1
+				}
+			});
+			const files: SubtitleFile[] = response.data.data || [];
+			const urls = await Promise.all(files.map((file) => loadSubtitleFile(file)));
+
+			// A newer load started meanwhile
+			if (currentLoadId !== loadId) {
+				urls.forEach((url) => URL.revokeObjectURL(url));
+				return;
+			}
+
+			trackUrls = urls;
+			sidecarTracks.value = files.map((file, index) => {
+				const language = getLanguageFromFilename(file.filename_download);
+				return {
+					index,
+					language,
+					label: formatTrackLabel(file.title || file.filename_download, language, index)
+				};
+			});
+			attachTrackElements();
+		} catch (error) {
+			console.error('Failed to load subtitle files:', error);
+		}
+	};
+
+	const setSidecarTrack = (index: number) => {
+		selectedSidecarTrack.value = index;
+		updateTrackModes();
+	};
+
+	// Reload when the field value changes (e.g., files added or removed while editing)
+	watch(
+		() => options.subtitlesFieldName ? JSON.stringify(options.values.value?.[options.subtitlesFieldName] ?? null) : null,
+		() => loadSidecarSubtitles(),
+		{ immediate: true }
+	);
+
+	// The video element is replaced when switching between input and player
+	watch(options.videoElement, () => attachTrackElements());
+
+	return {
+		sidecarTracks: sidecarTracks as Ref<SubtitleTrack[]>,
+		selectedSidecarTrack,
+		setSidecarTrack,
+		cleanupSubtitles: releaseTracks
+	};
+}
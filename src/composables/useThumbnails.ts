@@ -0,0 +1,78 @@
+/**
+ * Composable for seek bar thumbnails - from the stream (I-frame playlists, DASH image adaptation sets)
+ * or a WebVTT thumbnails track of the item
+ */
+import { computed, ref, watch, type Ref } from 'vue';
+import { normalizeApiBaseUrl, parseThumbnailVtt, type ThumbnailCue } from '../utils';
+import type { ThumbnailTile } from '../engines';
+
+interface ThumbnailsOptions {
+	api: any;
+	values: Ref<Record<string, unknown>>;
+	thumbnailsFieldName?: string;
+	hasEngineThumbnails: Ref<boolean>;
+	getEngineThumbnail: (time: number) => Promise<ThumbnailTile | null>;
+}
+
+export function useThumbnails(options: ThumbnailsOptions) {
+	const thumbnailCues = ref<ThumbnailCue[]>([]);
+	let loadId = 0;
+
+	const hasThumbnails = computed(() => options.hasEngineThumbnails.value || thumbnailCues.value.length > 0);
+
+	// Load the track of a file field (UUID or file object) or string field (full URL)
+	const loadThumbnailTrack = async (value: unknown): Promise<ThumbnailCue[]> => {
+		if (typeof value === 'string' && /^https?:\/\//.test(value)) {
+			const response = await fetch(value);
+			if (!response.ok) throw new Error(`HTTP ${response.status}`);
+			return parseThumbnailVtt(await response.text(), value);
+		}
+
+		const fileId = typeof value === 'string' ? value : (value as any)?.id;
+		if (!fileId) return [];
+		const response = await options.api.get(`/assets/${fileId}`, { responseType: 'text' });
+		// Sprite images stored as Directus files can be referenced by their file id
+		const assetsUrl = `${normalizeApiBaseUrl(options.api).replace(/\/+$/, '')}/assets/`;
+		return parseThumbnailVtt(String(response.data ?? ''), assetsUrl);
+	};
+
+	const loadThumbnails = async () => {
+		const currentLoadId = ++loadId;
+		thumbnailCues.value = [];
+
+		const fieldName = options.thumbnailsFieldName;
+		const value = fieldName ? options.values.value?.[fieldName] : null;
+		if (!value) return;
+
+		try {
+			const cues = await loadThumbnailTrack(value);
+			// A newer load started meanwhile
+			if (currentLoadId !== loadId) return;
+			thumbnailCues.value = cues;
+		} catch (error) {
+			console.error('Failed to load thumbnails track:', error);
+		}
+	};
+
+	// The stream's own thumbnails are preferred over the WebVTT track
+	const getThumbnail = async (time: number): Promise<ThumbnailTile | null> => {
+		if (options.hasEngineThumbnails.value) {
+			const thumbnail = await options.getEngineThumbnail(time);
+			if (thumbnail) return thumbnail;
+		}
+		const cue = thumbnailCues.value.find((thumbnailCue) => time >= thumbnailCue.start && time < thumbnailCue.end);
+		return cue ? { url: cue.url, x: cue.x, y: cue.y, width: cue.width, height: cue.height } : null;
+	};
+
+	// Reload when the field value changes
+	watch(
+		() => options.thumbnailsFieldName ? JSON.stringify(options.values.value?.[options.thumbnailsFieldName] ?? null) : null,
+		() => loadThumbnails(),
+		{ immediate: true }
+	);
+
+	return {
+		hasThumbnails,
+		getThumbnail
+	};
+}
@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { useTokenRefresh } from './useTokenRefresh';
+
+// Refreshed at 80% of one minute
+const REFRESH_DELAY = 48 * 1000;
+
+/**
+ * Start refreshing a stream URL and run the refreshes that sign it again with the given URLs
+ */
+async function refreshStream(streamUrl: string, freshUrls: string[]) {
+	const refreshStreamUrl = vi.fn<(streamUrl: string) => Promise<string | null>>();
+	freshUrls.forEach((freshUrl) => refreshStreamUrl.mockResolvedValueOnce(freshUrl));
+
+	const tokenRefresh = useTokenRefresh({ refreshStreamUrl, expiresInMinutes: 1 });
+	tokenRefresh.startTokenRefresh(streamUrl);
+	for (let i = 0; i < freshUrls.length; i++) {
+		await vi.advanceTimersByTimeAsync(REFRESH_DELAY);
+	}
+
+	expect(refreshStreamUrl).toHaveBeenCalledTimes(freshUrls.length);
+	return tokenRefresh;
+}
+
+describe('useTokenRefresh', () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it('rewrites path tokens in segment URLs', async () => {
+		const { rewriteUrl } = await refreshStream('https://cdn.example.com/oldtoken123/1700000000/videos/movie/index.m3u8', [
+			'https://cdn.example.com/newtoken456/1700003600/videos/movie/index.m3u8'
+		]);
+
+		expect(rewriteUrl('https://cdn.example.com/oldtoken123/1700000000/videos/movie/1080p/segment-1.ts')).toBe(
+			'https://cdn.example.com/newtoken456/1700003600/videos/movie/1080p/segment-1.ts'
+		);
+	});
+
+	it('rewrites query tokens in segment URLs', async () => {
+		const { rewriteUrl } = await refreshStream('https://cdn.example.com/videos/movie/index.m3u8?token=oldtoken123&expires=1700000000', [
+			'https://cdn.example.com/videos/movie/index.m3u8?token=newtoken456&expires=1700003600'
+		]);
+
+		expect(rewriteUrl('https://cdn.example.com/videos/movie/1080p/segment-1.ts?token=oldtoken123&expires=1700000000&part=2')).toBe(
+			'https://cdn.example.com/videos/movie/1080p/segment-1.ts?token=newtoken456&expires=1700003600&part=2'
+		);
+	});
+
+	it('keeps other parts of a segment URL that equal an old token value', async () => {
+		const { rewriteUrl } = await refreshStream(
+			'https://cdn.example.com/oldtoken123/1700000000/videos/index.m3u8?token=oldtoken123&expires=1700000000',
+			['https://cdn.example.com/newtoken456/1700003600/videos/index.m3u8?token=newtoken456&expires=1700003600']
+		);
+
+		expect(
+			rewriteUrl('https://cdn.example.com/oldtoken123/1700000000/videos/oldtoken123/1700000000.ts?token=oldtoken123&ref=oldtoken123#oldtoken123')
+		).toBe('https://cdn.example.com/newtoken456/1700003600/videos/oldtoken123/1700000000.ts?token=newtoken456&ref=oldtoken123#oldtoken123');
+	});
+
+	it('rewrites tokens of earlier signatures to the latest value', async () => {
+		const { rewriteUrl } = await refreshStream('https://cdn.example.com/videos/index.m3u8?token=firsttoken', [
+			'https://cdn.example.com/videos/index.m3u8?token=secondtoken',
+			'https://cdn.example.com/videos/index.m3u8?token=thirdtoken'
+		]);
+
+		expect(rewriteUrl('https://cdn.example.com/videos/segment-1.ts?token=firsttoken')).toBe(
+			'https://cdn.example.com/videos/segment-1.ts?token=thirdtoken'
+		);
+		expect(rewriteUrl('https://cdn.example.com/videos/segment-2.ts?token=secondtoken')).toBe(
+			'https://cdn.example.com/videos/segment-2.ts?token=thirdtoken'
+		);
+	});
+
+	it('stops rewriting URLs once stopped', async () => {
+		const { rewriteUrl, stopTokenRefresh } = await refreshStream('https://cdn.example.com/videos/index.m3u8?token=oldtoken123', [
+			'https://cdn.example.com/videos/index.m3u8?token=newtoken456'
+		]);
+		stopTokenRefresh();
+
+		expect(rewriteUrl('https://cdn.example.com/videos/segment-1.ts?token=oldtoken123')).toBe(
+			'https://cdn.example.com/videos/segment-1.ts?token=oldtoken123'
+		);
+	});
+});
@@ -0,0 +1,210 @@
+/**
+ * Composable for refreshing stream tokens during playback
+ *
+ * The players keep the manifest and segment URLs they already resolved, so instead of reloading
+ * the source (losing position and rendition) the token values in those URLs are swapped for
+ * freshly signed ones right before each request.
+ */
+import type { HlsConfig } from 'hls.js';
+import type * as dashjs from 'dashjs';
+
+export interface TokenRefreshOptions {
+	// Sign the stream link behind a stream URL again, null when the URL carries no token
+	refreshStreamUrl: (streamUrl: string) => Promise<string | null>;
+	// When the token of a stream URL was signed and expires (unix seconds) - the endpoint's expiry for server signing
+	getUrlSignature?: (streamUrl: string) => { signedAt: number; expires: number } | null;
+	expiresInMinutes?: number;
+}
+
+export interface TokenRefresh {
+	startTokenRefresh: (streamUrl: string) => void;
+	stopTokenRefresh: () => void;
+	rewriteUrl: (url: string) => string;
+	getHlsConfig: () => Partial<HlsConfig>;
+	attachDashRequestModifier: (player: dashjs.MediaPlayerClass) => void;
+}
+
+// Refresh when 80% of the token lifetime has passed, but not more often than every 30 seconds
+const REFRESH_RATIO = 0.8;
+const MIN_REFRESH_INTERVAL = 30 * 1000;
+const RETRY_INTERVAL = 30 * 1000;
+
+// Token value that changed between two signatures - at a path segment (index) or a query parameter (name)
+interface TokenReplacement {
+	position: number | string;
+	outdatedValue: string;
+	freshValue: string;
+}
+
+interface SplitUrl {
+	segments: string[];
+	// Raw query parameters (not decoded, as they appear in request URLs), in their order
+	query: Array<[string, string | null]>;
+	hash: string;
+}
+
+/**
+ * Split a URL into its path segments and raw query parameters
+ */
+function splitUrl(url: string): SplitUrl {
+	const hashIndex = url.indexOf('#');
+	const withoutHash = hashIndex >= 0 ? url.substring(0, hashIndex) : url;
+	const queryIndex = withoutHash.indexOf('?');
+	const path = queryIndex >= 0 ? withoutHash.substring(0, queryIndex) : withoutHash;
+	const queryString = queryIndex >= 0 ? withoutHash.substring(queryIndex + 1) : '';
+
+	const query = queryString.split('&').filter(Boolean).map((pair): [string, string | null] => {
+		const separatorIndex = pair.indexOf('=');
+		return separatorIndex > 0 ? [pair.substring(0, separatorIndex), pair.substring(separatorIndex + 1)] : [pair, null];
+	});
+
+	return { segments: path.split('/'), query, hash: hashIndex >= 0 ? url.substring(hashIndex) : '' };
+}
+
+function joinUrl({ segments, query, hash }: SplitUrl): string {
+	const queryString = query.map(([key, value]) => (value === null ? key : `${key}=${value}`)).join('&');
+	return segments.join('/') + (queryString ? `?${queryString}` : '') + hash;
+}
+
+/**
+ * Get the token values that changed between two signatures of the same stream link
+ */
+function getTokenReplacements(previousUrl: string, freshUrl: string): TokenReplacement[] {
+	const previous = splitUrl(previousUrl);
+	const fresh = splitUrl(freshUrl);
+	const replacements: TokenReplacement[] = [];
+
+	// Query tokens (e.g., ?token=...&expires=..., hdnts=..., Policy/Signature)
+	const previousQuery = new Map(previous.query);
+	fresh.query.forEach(([key, value]) => {
+		const previousValue = previousQuery.get(key);
+		if (previousValue && value !== null && previousValue !== value) {
+			replacements.push({ position: key, outdatedValue: previousValue, freshValue: value });
+		}
+	});
+
+	// Path tokens (e.g., /{{token}}/{{expires}}/...), only when the path structure is unchanged
+	if (previous.segments.length === fresh.segments.length) {
+		fresh.segments.forEach((segment, index) => {
+			const previousSegment = previous.segments[index];
+			if (previousSegment !== segment) {
+				replacements.push({ position: index, outdatedValue: previousSegment, freshValue: segment });
+			}
+		});
+	}
+
+	return replacements;
+}
+
+export function useTokenRefresh(options: TokenRefreshOptions): TokenRefresh {
+	// Outdated token values and their latest value
+	let replacements: TokenReplacement[] = [];
+	let currentStreamUrl: string | null = null;
+	let refreshTimeout: ReturnType<typeof setTimeout> | null = null;
+
+	// Time until 80% of the token lifetime has passed, counted from when the token was signed (a cached
+	// signature may be old already), from now for URLs without known signing time
+	const getRefreshDelay = (streamUrl: string) => {
+		const signature = options.getUrlSignature?.(streamUrl);
+		if (!signature) {
+			const expiresInMinutes = options.expiresInMinutes || 60;
+			return expiresInMinutes * 60 * 1000 * REFRESH_RATIO;
+		}
+		const refreshAt = (signature.signedAt + (signature.expires - signature.signedAt) * REFRESH_RATIO) * 1000;
+		return Math.max(0, refreshAt - Date.now());
+	};
+
+	const scheduleRefresh = (delay: number) => {
+		if (refreshTimeout) {
+			clearTimeout(refreshTimeout);
+		}
+		refreshTimeout = setTimeout(refresh, delay);
+	};
+
+	const refresh = async () => {
+		const streamUrl = currentStreamUrl;
+		if (!streamUrl) return;
+
+		try {
+			const freshUrl = await options.refreshStreamUrl(streamUrl);
+			// Stopped or restarted with another stream while signing
+			if (currentStreamUrl !== streamUrl) return;
+			if (!freshUrl) {
+				// Nothing to refresh for this stream
+				return;
+			}
+
+			getTokenReplacements(streamUrl, freshUrl).forEach((replacement) => {
+				// Values replaced earlier now resolve to the fresh value as well
+				replacements.forEach((earlierReplacement) => {
+					if (earlierReplacement.position === replacement.position && earlierReplacement.freshValue === replacement.outdatedValue) {
+						earlierReplacement.freshValue = replacement.freshValue;
+					}
+				});
+				replacements.push(replacement);
+			});
+
+			currentStreamUrl = freshUrl;
+			scheduleRefresh(Math.max(MIN_REFRESH_INTERVAL, getRefreshDelay(freshUrl)));
+		} catch (error) {
+			console.warn('[TokenRefresh] Failed to refresh stream token, retrying:', error);
+			if (currentStreamUrl === streamUrl) {
+				scheduleRefresh(RETRY_INTERVAL);
+			}
+		}
+	};
+
+	const startTokenRefresh = (streamUrl: string) => {
+		stopTokenRefresh();
+		currentStreamUrl = streamUrl;
+		scheduleRefresh(getRefreshDelay(streamUrl));
+	};
+
+	const stopTokenRefresh = () => {
+		if (refreshTimeout) {
+			clearTimeout(refreshTimeout);
+			refreshTimeout = null;
+		}
+		currentStreamUrl = null;
+		replacements = [];
+	};
+
+	// Segment and license URLs carry the tokens at the same path segment or query parameter as the stream URL,
+	// other parts are kept even when they equal an outdated token value
+	const rewriteUrl = (url: string): string => {
+		if (replacements.length === 0) return url;
+		const getFreshValue = (position: number | string, value: string) => {
+			return replacements.find((replacement) => replacement.position === position && replacement.outdatedValue === value)?.freshValue ?? value;
+		};
+
+		const splitRequestUrl = splitUrl(url);
+		return joinUrl({
+			...splitRequestUrl,
+			segments: splitRequestUrl.segments.map((segment, index) => getFreshValue(index, segment)),
+			query: splitRequestUrl.query.map(([key, value]) => [key, value === null ? null : getFreshValue(key, value)])
+		});
+	};
+
+	// HLS.js: open every request (playlists, segments, keys) with the current token
+	const getHlsConfig = (): Partial<HlsConfig> => ({
+		xhrSetup: (xhr: XMLHttpRequest, url: string) => {
+			xhr.open('GET', rewriteUrl(url), true);
+		}
+	});
+
+	// dash.js: rewrite every request URL (manifest updates, segments, license requests)
+	const attachDashRequestModifier = (player: dashjs.MediaPlayerClass) => {
+		player.extend('RequestModifier', () => ({
+			modifyRequestURL: (url: string) => rewriteUrl(url),
+			modifyRequestHeader: (xhr: XMLHttpRequest) => xhr
+		}), true);
+	};
+
+	return {
+		startTokenRefresh,
+		stopTokenRefresh,
+		rewriteUrl,
+		getHlsConfig,
+		attachDashRequestModifier
+	};
+}
@@ -1,17 +1,28 @@
 /**
  * Composable for video player setup and management
  */
-import { ref, type Ref, computed } from 'vue';
-import type { useHlsPlayer } from './useHlsPlayer';
-import type { useDashPlayer } from './useDashPlayer';
-import { isDashStream } from './useDashPlayer';
+import { type Ref, computed, shallowRef } from 'vue';
+import type { PlaybackError, PlayerEngineKind } from '../engines';
+import type { PlayerEngineInstance } from './usePlayerEngine';
+
+// Source of the fallback chain - the stream link, the fallback stream link or the source file
+export interface PlaybackSource {
+	label: string;
+	url: string;
+	// Source files play natively, streams are probed
+	kind?: PlayerEngineKind;
+}
+
+// Source the chain fell back from, error null when the browser can't play its format
+export interface FailedPlaybackSource {
+	label: string;
+	error: PlaybackError | null;
+}
 
 export function useVideoPlayerSetup(
 	videoElement: Ref<HTMLVideoElement | null>,
-	setupHlsPlayer: ReturnType<typeof useHlsPlayer>['setupHlsPlayer'],
-	cleanupHls: ReturnType<typeof useHlsPlayer>['cleanupHls'],
-	setupDashPlayer: ReturnType<typeof useDashPlayer>['setupDashPlayer'],
-	cleanupDash: ReturnType<typeof useDashPlayer>['cleanupDash'],
+	setupPlayer: PlayerEngineInstance['setupPlayer'],
+	cleanupPlayer: PlayerEngineInstance['cleanupPlayer'],
 	isStringField: Ref<boolean>,
 	shouldReplaceDefaultPlayer: Ref<boolean>,
 	streamUrlFromValue: Ref<string | null>,
@@ -20,7 +31,10 @@ export function useVideoPlayerSetup(
 	fileData: Ref<any>,
 	streamLinkFieldName: Ref<string>,
 	getStreamUrl: (streamLink: string) => string | null,
-	videoUrl: Ref<string | null>
+	isSigningStreamUrl: (streamLink: string) => boolean,
+	videoUrl: Ref<string | null>,
+	fallbackStreamUrl: Ref<string | null>,
+	enableFallback: boolean
 ) {
 	const videoPreload = computed(() => {
 		// For streaming formats (HLS/DASH), use 'none' to prevent preloading
@@ -28,6 +42,59 @@ export function useVideoPlayerSetup(
 		return (useHls.value || streamUrlFromValue.value) ? 'none' : 'metadata';
 	});
 
+	// Source playing and the sources that failed before it (the banner above the player)
+	const activeSource = shallowRef<PlaybackSource | null>(null);
+	const failedSources = shallowRef<FailedPlaybackSource[]>([]);
+
+	const resetSources = () => {
+		activeSource.value = null;
+		failedSources.value = [];
+	};
+
+	// Progressive files preload metadata to show the first frame
+	const preloadMetadata = (videoEl: HTMLVideoElement) => {
+		videoEl.setAttribute('preload', 'metadata');
+		videoEl.preload = 'metadata';
+	};
+
+	// Play a progressive file (e.g., MP4)
+	const playFile = (url: string) => {
+		if (!videoElement.value) return;
+		preloadMetadata(videoElement.value);
+		setupPlayer(videoElement.value, url, 'native');
+	};
+
+	// Stream link, then the fallback stream link (e.g., HLS of a DASH stream), then the source file
+	const getSources = (streamUrl: string, fileUrl: string | null): PlaybackSource[] => {
+		const sources: PlaybackSource[] = [{ label: 'stream link', url: streamUrl }];
+		// Read when falling back - a link signed on the server may only be available by then
+		if (fallbackStreamUrl.value && fallbackStreamUrl.value !== streamUrl) {
+			sources.push({ label: 'fallback stream link', url: fallbackStreamUrl.value });
+		}
+		if (fileUrl) {
+			sources.push({ label: 'source file', url: fileUrl, kind: 'native' });
+		}
+		return sources;
+	};
+
+	const playSources = (streamUrl: string, fileUrl: string | null, index = 0) => {
+		const source = getSources(streamUrl, fileUrl)[index];
+		if (!videoElement.value) return;
+		if (!source) {
+			console.warn('[VideoPlayerSetup] No source left to fall back to');
+			return;
+		}
+
+		activeSource.value = source;
+		if (source.kind === 'native') preloadMetadata(videoElement.value);
+		setupPlayer(videoElement.value, source.url, source.kind, (error) => {
+			// A format the browser can't play always falls back, playback errors only when enabled
+			if (error && !enableFallback) return;
+			failedSources.value = [...failedSources.value, { label: source.label, error }];
+			playSources(streamUrl, fileUrl, index + 1);
+		});
+	};
+
 	const setupVideoPlayer = () => {
 		if (!videoElement.value) {
 			console.warn('[VideoPlayerSetup] Video element not available');
@@ -37,58 +104,25 @@ export function useVideoPlayerSetup(
 		// For string fields, we don't need fileData
 		if (isStringField.value && !shouldReplaceDefaultPlayer.value) {
 			// String field but not replacing default player - setup our own player
-			cleanupHls();
-			cleanupDash();
-			
-			if (!videoElement.value) {
-				console.warn('[VideoPlayerSetup] Video element not available for string field setup');
-				return;
-			}
+			cleanupPlayer();
+			resetSources();
 			
 			const streamUrl = streamUrlFromValue.value;
 			
-			// Check if it's a DASH stream
-			if (streamUrl && isDashStream(streamUrl)) {
-				setupDashPlayer(videoElement.value, streamUrl, () => {
-					// Fallback to MP4 if DASH fails
-					if (mp4Url.value) {
-						videoElement.value!.preload = 'metadata';
-						videoElement.value!.src = mp4Url.value;
-						videoElement.value!.load();
-					} else {
-						console.warn('[VideoPlayerSetup] No MP4 URL available for DASH fallback');
-					}
-				});
+			// Stream URL - the format (HLS, DASH or a progressive file) is probed or set in the options
+			if (streamUrl && (useHls.value || !mp4Url.value)) {
+				playSources(streamUrl, mp4Url.value);
 				return;
 			}
 			
-			// Check if it's an HLS stream or useHls is enabled
-			if (useHls.value || (streamUrl && (streamUrl.endsWith('.m3u8') || streamUrl.includes('m3u8')))) {
-				// Use HLS
-				if (streamUrl) {
-					setupHlsPlayer(videoElement.value, streamUrl, () => {
-						// Fallback to MP4 if needed (though this shouldn't happen for string fields)
-						if (mp4Url.value) {
-							videoElement.value!.preload = 'metadata';
-							videoElement.value!.src = mp4Url.value;
-							videoElement.value!.load();
-						} else {
-							console.warn('[VideoPlayerSetup] No stream URL and no MP4 URL available for string field');
-						}
-					});
-				} else {
-					console.warn('[VideoPlayerSetup] No stream URL available for string field HLS playback. Value:', streamUrlFromValue.value);
-				}
+			if (useHls.value) {
+				console.warn('[VideoPlayerSetup] No stream URL available for string field HLS playback. Value:', streamUrlFromValue.value);
 				return;
 			}
 			
 			// Use MP4 (for string fields, this is unlikely but handle it)
 			if (mp4Url.value) {
-				// Set preload to metadata to load first frame - use both methods to ensure it works
-				videoElement.value.setAttribute('preload', 'metadata');
-				videoElement.value.preload = 'metadata';
-				videoElement.value.src = mp4Url.value;
-				videoElement.value.load();
+				playFile(mp4Url.value);
 			} else {
 				console.warn('[VideoPlayerSetup] No MP4 URL available for string field MP4 playback');
 			}
@@ -101,45 +135,29 @@ export function useVideoPlayerSetup(
 			return;
 		}
 		
-		cleanupHls();
-		cleanupDash();
+		cleanupPlayer();
+		resetSources();
 		
-		// If stream link field is configured and available, check stream type
+		// If stream link field is configured and available, play the stream (format probed or set in the options)
 		if (streamLinkFieldName.value) {
 			const streamLinkValue = fileData.value?.[streamLinkFieldName.value];
 			if (streamLinkValue) {
 				const streamUrl = getStreamUrl(streamLinkValue);
 				if (streamUrl) {
-					// Check if it's a DASH stream
-					if (isDashStream(streamUrl)) {
-						setupDashPlayer(videoElement.value, streamUrl, () => {
-							// Fallback to MP4 if DASH fails
-							if (videoUrl.value) {
-								videoElement.value!.src = videoUrl.value;
-							}
-						});
-						return;
-					}
-					
-					// Otherwise, assume HLS
-					setupHlsPlayer(videoElement.value, streamUrl, () => {
-						// Fallback to MP4 if HLS fails
-						if (videoUrl.value) {
-							videoElement.value!.src = videoUrl.value;
-						}
-					});
+					playSources(streamUrl, videoUrl.value);
+					return;
+				}
+				
+				// Stream URL is being signed on the server - setup runs again once it is available
+				if (isSigningStreamUrl(streamLinkValue)) {
 					return;
 				}
 			}
 		}
 		
 		// No stream link field configured or available - use traditional MP4 playback
-		if (videoUrl.value && videoElement.value) {
-			// Set preload to metadata to load first frame for MP4
-			videoElement.value.setAttribute('preload', 'metadata');
-			videoElement.value.preload = 'metadata';
-			videoElement.value.src = videoUrl.value;
-			videoElement.value.load();
+		if (videoUrl.value) {
+			playFile(videoUrl.value);
 		} else {
 			console.warn('[VideoPlayerSetup] No video URL available for file field playback', {
 				videoUrl: videoUrl.value,
@@ -148,10 +166,16 @@ export function useVideoPlayerSetup(
 		}
 	};
 
+	// The container goes fullscreen with the custom player controls, a second call leaves fullscreen
 	const openFullscreen = () => {
 		if (!videoElement.value) return;
-		if (videoElement.value.requestFullscreen) {
-			videoElement.value.requestFullscreen();
+		if (document.fullscreenElement) {
+			document.exitFullscreen();
+			return;
+		}
+		const container = videoElement.value.closest('.video-container') || videoElement.value;
+		if (container.requestFullscreen) {
+			container.requestFullscreen();
 		}
 	};
 
@@ -161,6 +185,8 @@ export function useVideoPlayerSetup(
 
 	return {
 		videoPreload,
+		activeSource,
+		failedSources,
 		setupVideoPlayer,
 		openFullscreen,
 		onVideoLoaded
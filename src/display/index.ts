@@ -0,0 +1,31 @@
+import { defineDisplay } from '@directus/extensions-sdk';
+import DisplayComponent from './display.vue';
+
+export default defineDisplay({
+	id: 'display-video-player',
+	name: 'Streaming Video',
+	icon: 'play_circle',
+	description: 'Show a thumbnail, the format (HLS / DASH), duration and highest quality of a video in list and card views',
+	component: DisplayComponent,
+	types: ['uuid', 'string'],
+	localTypes: ['file', 'standard'],
+	// File fields need the file object, including the stream link field of the interface
+	fields: (_options, { type }) => (type === 'uuid' ? ['*'] : []),
+	options: [
+		{
+			field: 'preview_on_hover',
+			name: 'Preview on Hover',
+			type: 'boolean',
+			meta: {
+				width: 'half',
+				interface: 'boolean',
+				options: {
+					label: 'Play a muted preview while hovering the thumbnail'
+				}
+			},
+			schema: {
+				default_value: true
+			}
+		}
+	]
+});
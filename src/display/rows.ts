@@ -0,0 +1,97 @@
+/**
+ * Requests shared by the rows of a list view
+ *
+ * Displays only get the value of their field, so every row looks up its item and reads its manifest.
+ * Both are cached by collection, field and value (pending requests are shared), and first frames of
+ * streams are loaded one row at a time.
+ */
+import { getStreamSummary, type StreamFormatOption, type StreamSummary } from '../engines';
+
+interface CacheEntry<T> {
+	value: Promise<T>;
+	expiresAt: number;
+}
+
+interface RowValue {
+	collection: string;
+	field: string;
+	value: string;
+}
+
+// Long enough for paging back and forth, short enough to show changes of the item
+const CACHE_TTL = 60 * 1000;
+const MAX_CACHED_ROWS = 200;
+const FIRST_FRAME_WIDTH = 128;
+
+const itemCache = new Map<string, CacheEntry<Record<string, any> | null>>();
+const summaryCache = new Map<string, CacheEntry<StreamSummary>>();
+let firstFrameQueue: Promise<unknown> = Promise.resolve();
+
+function getCached<T>(cache: Map<string, CacheEntry<T>>, { collection, field, value }: RowValue, load: () => Promise<T>): Promise<T> {
+	const key = `${collection}/${field}/${value}`;
+	const cached = cache.get(key);
+	if (cached && cached.expiresAt > Date.now()) return cached.value;
+	cache.delete(key);
+
+	if (cache.size >= MAX_CACHED_ROWS) {
+		const oldestKey = cache.keys().next().value;
+		if (oldestKey !== undefined) cache.delete(oldestKey);
+	}
+
+	const loaded = load();
+	cache.set(key, { value: loaded, expiresAt: Date.now() + CACHE_TTL });
+	// A failed request may succeed later
+	loaded.catch(() => {
+		if (cache.get(key)?.value === loaded) cache.delete(key);
+	});
+	return loaded;
+}
+
+/**
+ * Get the item whose field holds the value, null if there is none
+ */
+export function getRowItem(api: any, rowValue: RowValue, fields: string[]): Promise<Record<string, any> | null> {
+	return getCached(itemCache, rowValue, async () => {
+		const response = await api.get(`/items/${rowValue.collection}`, {
+			params: {
+				fields,
+				filter: { [rowValue.field]: { _eq: rowValue.value } },
+				limit: 1
+			}
+		});
+		return response.data.data?.[0] ?? null;
+	});
+}
+
+/**
+ * Get the summary of the stream link of a row - the URL is the signed link, which differs with every token
+ */
+export function getRowSummary(rowValue: RowValue, url: string, formatOverride?: StreamFormatOption | null): Promise<StreamSummary> {
+	return getCached(summaryCache, rowValue, () => getStreamSummary(url, formatOverride));
+}
+
+/**
+ * Run the loading of a first frame after the ones queued before it
+ */
+export function queueFirstFrame(load: () => Promise<void>): void {
+	firstFrameQueue = firstFrameQueue.then(load).catch(() => {});
+}
+
+/**
+ * Copy the current frame of a video into an image URL, null if it can't be read (e.g., a cross-origin video)
+ */
+export function captureVideoFrame(videoEl: HTMLVideoElement): string | null {
+	if (!videoEl.videoWidth || !videoEl.videoHeight) return null;
+	const canvas = document.createElement('canvas');
+	canvas.width = Math.min(FIRST_FRAME_WIDTH, videoEl.videoWidth);
+	canvas.height = Math.round(canvas.width * videoEl.videoHeight / videoEl.videoWidth);
+	const context = canvas.getContext('2d');
+	if (!context) return null;
+	try {
+		context.drawImage(videoEl, 0, 0, canvas.width, canvas.height);
+		return canvas.toDataURL('image/jpeg', 0.7);
+	} catch (error) {
+		// Tainted canvas
+		return null;
+	}
+}
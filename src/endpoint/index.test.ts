@@ -0,0 +1,161 @@
+import { describe, expect, it, vi } from 'vitest';
+import { generateSecurePathHash } from '../shared/tokenAlgorithms';
+
+vi.mock('@directus/extensions-sdk', () => ({ defineEndpoint: (config: unknown) => config }));
+
+const { default: endpoint } = await import('./index');
+
+interface EndpointSetup {
+	options?: Record<string, any>;
+	item?: Record<string, any>;
+	// Result of PermissionsService.getItemPermissions
+	update?: { access: boolean; fields: string[] | null };
+	// Create permissions of the own policies
+	createPermissions?: Array<{ fields: string[] | null }>;
+	env?: Record<string, unknown>;
+}
+
+const reader = { user: 'reader', admin: false, ip: '203.0.113.7' };
+const admin = { user: 'admin', admin: true, ip: '203.0.113.7' };
+
+const signOnServerOptions = {
+	host_url: 'https://cdn.example.com',
+	url_schema: '{{host_url}}/{{token}}/{{expires}}/{{item_field}}',
+	stream_secret: 'secret',
+	sign_on_server: true
+};
+
+// Routes of the endpoint with fake Directus services
+const createEndpoint = (setup: EndpointSetup = {}) => {
+	const routes = new Map<string, (req: any, res: any, next: any) => Promise<unknown>>();
+	const router = {
+		get: (path: string, handler: any) => routes.set(path, handler),
+		post: (path: string, handler: any) => routes.set(path, handler)
+	};
+	const getItemPermissions = vi.fn(async () => ({
+		update: setup.update ?? { access: false, fields: null },
+		delete: { access: false },
+		share: { access: false }
+	}));
+
+	class FieldsService {
+		async readOne() {
+			return { meta: { interface: 'interface-video-player', options: setup.options ?? signOnServerOptions } };
+		}
+	}
+	class ItemsService {
+		async readOne() {
+			return setup.item ?? { stream_link: 'videos/stored.m3u8' };
+		}
+	}
+	class PermissionsService {
+		getItemPermissions = getItemPermissions;
+		async readByQuery() {
+			return setup.createPermissions ?? [];
+		}
+	}
+
+	(endpoint as { handler: (router: any, context: any) => void }).handler(router, {
+		services: { FieldsService, ItemsService, PermissionsService },
+		getSchema: async () => ({ relations: [] }),
+		env: setup.env ?? {},
+		logger: { warn: vi.fn() }
+	});
+
+	const sign = async (body: Record<string, unknown>, accountability: Record<string, unknown> | null = reader) => {
+		const res: any = { statusCode: 200, body: null };
+		res.status = (status: number) => {
+			res.statusCode = status;
+			return res;
+		};
+		res.json = (json: unknown) => {
+			res.body = json;
+			return res;
+		};
+		const next = vi.fn();
+		await routes.get('/sign')!({ body: { collection: 'videos', field: 'stream_link', ...body }, accountability, ip: '203.0.113.7' }, res, next);
+		expect(next).not.toHaveBeenCalled();
+		return res;
+	};
+
+	return { sign, getItemPermissions };
+};
+
+describe('POST /sign', () => {
+	it('signs the stored value for users that can only read the item', async () => {
+		const { sign, getItemPermissions } = createEndpoint();
+		const res = await sign({ primaryKey: 1 });
+		expect(res.statusCode).toBe(200);
+		expect(res.body.data.url).toMatch(/^https:\/\/cdn\.example\.com\/[\w-]+\/\d+\/videos\/stored\.m3u8$/);
+		expect(res.body.data.expires).toBeGreaterThan(Date.now() / 1000);
+		expect(getItemPermissions).not.toHaveBeenCalled();
+	});
+
+	it('signs a requested value that is stored in the item', async () => {
+		const { sign } = createEndpoint();
+		const res = await sign({ primaryKey: 1, value: 'videos/stored.m3u8' });
+		expect(res.statusCode).toBe(200);
+	});
+
+	it('refuses unsaved values of users without update permission', async () => {
+		const { sign, getItemPermissions } = createEndpoint();
+		const res = await sign({ primaryKey: 1, value: 'videos/other.m3u8' });
+		expect(res.statusCode).toBe(403);
+		expect(getItemPermissions).toHaveBeenCalledWith('videos', '1');
+	});
+
+	it('refuses unsaved values when the field is not in the update permission', async () => {
+		const { sign } = createEndpoint({ update: { access: true, fields: ['title'] } });
+		const res = await sign({ primaryKey: 1, value: 'videos/other.m3u8' });
+		expect(res.statusCode).toBe(403);
+	});
+
+	it('signs unsaved values of users allowed to update the field', async () => {
+		const { sign } = createEndpoint({ update: { access: true, fields: ['title', 'stream_link'] } });
+		const res = await sign({ primaryKey: 1, value: 'videos/other.m3u8' });
+		expect(res.statusCode).toBe(200);
+		expect(res.body.data.url).toMatch(/\/videos\/other\.m3u8$/);
+	});
+
+	it('signs values of new items only for users allowed to create them with the field', async () => {
+		const denied = await createEndpoint({ createPermissions: [{ fields: ['title'] }] }).sign({ value: 'videos/new.m3u8' });
+		expect(denied.statusCode).toBe(403);
+
+		const allowed = await createEndpoint({ createPermissions: [{ fields: ['*'] }] }).sign({ primaryKey: '+', value: 'videos/new.m3u8' });
+		expect(allowed.statusCode).toBe(200);
+	});
+
+	it('refuses unsaved values of public requests and signs those of admins', async () => {
+		const { sign } = createEndpoint();
+		expect((await sign({ primaryKey: 1, value: 'videos/other.m3u8' }, { user: null, admin: false })).statusCode).toBe(403);
+		expect((await sign({ primaryKey: 1, value: 'videos/other.m3u8' }, admin)).statusCode).toBe(200);
+	});
+
+	it('refuses to sign when server-side signing is not enabled', async () => {
+		const { sign } = createEndpoint({ options: { ...signOnServerOptions, sign_on_server: false } });
+		const res = await sign({ primaryKey: 1 }, admin);
+		expect(res.statusCode).toBe(403);
+	});
+
+	it('refuses private keys of server-only algorithms in the field options', async () => {
+		const { sign } = createEndpoint({ options: { ...signOnServerOptions, token_algorithm: 'cloudfront', stream_secret: 'private-key' } });
+		const res = await sign({ primaryKey: 1 }, admin);
+		expect(res.statusCode).toBe(400);
+	});
+
+	it('prefers the secret of the field from the environment', async () => {
+		const { sign } = createEndpoint({ env: { STREAMING_VIDEO_PLAYER_SECRET_VIDEOS_STREAM_LINK: 'field-secret', STREAMING_VIDEO_PLAYER_SECRET: 'global-secret' } });
+		const res = await sign({ primaryKey: 1 });
+		const [, token, expires] = new URL(res.body.data.url).pathname.split('/');
+		expect(token).toBe(generateSecurePathHash(expires, null, 'field-secret'));
+	});
+
+	it('resolves only stored video ids of API resolved providers, with the API key from the environment', async () => {
+		const vimeoOtt = { provider: 'vimeo_ott', sign_on_server: true };
+		const unsaved = await createEndpoint({ options: vimeoOtt }).sign({ primaryKey: 1, value: '12345' }, admin);
+		expect(unsaved.statusCode).toBe(403);
+
+		const keyInOptions = await createEndpoint({ options: { ...vimeoOtt, stream_secret: 'api-key' }, item: { stream_link: '12345' } }).sign({ primaryKey: 1 }, admin);
+		expect(keyInOptions.statusCode).toBe(400);
+	});
+});
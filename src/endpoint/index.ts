@@ -0,0 +1,313 @@
+/**
+ * Endpoint for signing stream URLs server-side, so the stream secret never reaches the browser,
+ * and a ClearKey license stub for testing encrypted streams
+ */
+import { createSign } from 'node:crypto';
+import { defineEndpoint } from '@directus/extensions-sdk';
+import { buildProviderUrl, buildStreamUrl, normalizeClientIp, type Ipv6Handling, type StreamUrlConfig } from '../shared/streamUrl';
+import { getTokenAlgorithm, type TokenSigners } from '../shared/tokenAlgorithms';
+import { getStreamProvider } from '../shared/providers';
+import { normalizeClearKeys } from '../shared/drm';
+
+const INTERFACE_ID = 'interface-video-player';
+const ENV_SECRET = 'STREAMING_VIDEO_PLAYER_SECRET';
+
+/**
+ * Secret from the environment - per field (STREAMING_VIDEO_PLAYER_SECRET_<COLLECTION>_<FIELD>), per token
+ * algorithm or API resolved provider (STREAMING_VIDEO_PLAYER_SECRET_<ALGORITHM|PROVIDER>), then the global secret
+ */
+function readEnvSecret(env: Record<string, unknown>, collection: string, field: string, keyId: string): string {
+	const toEnvName = (value: string) => value.toUpperCase().replace(/[^A-Z0-9]+/g, '_');
+	const secret = env[`${ENV_SECRET}_${toEnvName(collection)}_${toEnvName(field)}`] || env[`${ENV_SECRET}_${toEnvName(keyId)}`] || env[ENV_SECRET];
+	return secret ? String(secret) : '';
+}
+
+/**
+ * PEM keys from the environment often have escaped line breaks, Mux and Cloudflare hand out base64 encoded PEM keys
+ */
+function toPrivateKeyPem(privateKey: string): string {
+	if (privateKey.includes('-----BEGIN')) {
+		return privateKey.replace(/\\n/g, '\n');
+	}
+	return Buffer.from(privateKey, 'base64').toString('utf8');
+}
+
+// Signers for token algorithms that can't run in the browser
+const signers: TokenSigners = {
+	rsaSha1: (data, privateKey) => createSign('RSA-SHA1').update(data).sign(toPrivateKeyPem(privateKey), 'base64'),
+	rsaSha256: (data, privateKey) => createSign('RSA-SHA256').update(data).sign(toPrivateKeyPem(privateKey), 'base64')
+};
+
+/**
+ * Request a provider API (Vimeo OTT) - the answer is JSON
+ */
+async function fetchJson(url: string, headers: Record<string, string>): Promise<any> {
+	const response = await fetch(url, { headers: { Accept: 'application/json', ...headers } });
+	if (!response.ok) {
+		throw new Error(`${url} answered with status ${response.status}`);
+	}
+	return response.json();
+}
+
+/**
+ * Send a Directus-style error response
+ */
+function sendError(res: any, status: number, message: string) {
+	return res.status(status).json({ errors: [{ message, extensions: { code: status === 403 ? 'FORBIDDEN' : 'INVALID_PAYLOAD' } }] });
+}
+
+/**
+ * Read a JSON request body - license requests of the CDM are sent without a JSON content type
+ */
+async function readJsonBody(req: any): Promise<any> {
+	if (req.body && typeof req.body === 'object' && !Buffer.isBuffer(req.body)) {
+		return req.body;
+	}
+
+	let raw = Buffer.isBuffer(req.body) ? req.body.toString('utf8') : typeof req.body === 'string' ? req.body : '';
+	if (!raw && req.readable) {
+		const chunks: Buffer[] = [];
+		for await (const chunk of req) {
+			chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+		}
+		raw = Buffer.concat(chunks).toString('utf8');
+	}
+	return raw ? JSON.parse(raw) : {};
+}
+
+/**
+ * Stream links of a stored value - a string, or an array of strings and { url } objects (CSV/JSON playlists)
+ */
+function toStreamLinks(value: unknown): string[] {
+	if (typeof value === 'string') return value ? [value] : [];
+	if (!Array.isArray(value)) return [];
+	return value
+		.map((entry) => (typeof entry === 'string' ? entry : entry?.url))
+		.filter((link): link is string => typeof link === 'string' && !!link);
+}
+
+// ClearKey uses unpadded base64url key ids and keys
+const hexToBase64Url = (hex: string) => Buffer.from(hex, 'hex').toString('base64url');
+
+export default defineEndpoint({
+	id: 'video-player',
+	handler: (router, { services, getSchema, env, logger }) => {
+		const { FieldsService, ItemsService, PermissionsService } = services;
+
+		// Load the interface options of a field - FieldsService applies the permissions of the requesting user
+		const readInterfaceOptions = async (collection: string, field: string, accountability: any, schema: any) => {
+			const fieldsService = new FieldsService({ schema, accountability });
+			const fieldInfo = await fieldsService.readOne(collection, field);
+			if (fieldInfo?.meta?.interface !== INTERFACE_ID) {
+				return null;
+			}
+			return (fieldInfo.meta.options || {}) as Record<string, any>;
+		};
+
+		// Resolve the stream links of the stored item - ItemsService applies item permissions
+		// Playlist fields (files, M2M, O2M, CSV/JSON) have one stream link per entry
+		const readStreamLinks = async (collection: string, field: string, primaryKey: string | number, options: Record<string, any>, accountability: any, schema: any): Promise<string[]> => {
+			const itemsService = new ItemsService(collection, { schema, accountability });
+			const streamLinkFieldName = options.stream_link_field_name as string | undefined;
+			const isFileField = schema.relations.some((relation: any) => relation.collection === collection && relation.field === field && relation.related_collection === 'directus_files');
+			const listRelation = schema.relations.find((relation: any) => relation.related_collection === collection && relation.meta?.one_field === field);
+
+			// For file fields the stream link lives in the configured field of the related file
+			if (isFileField && streamLinkFieldName) {
+				const item = await itemsService.readOne(primaryKey, { fields: [`${field}.${streamLinkFieldName}`] });
+				return toStreamLinks(item?.[field]?.[streamLinkFieldName]);
+			}
+
+			// Relational playlists - the stream link field of the related items (of the junction for M2M)
+			if (listRelation) {
+				if (!streamLinkFieldName) return [];
+				const junctionField = listRelation.meta?.junction_field as string | null;
+				const path = junctionField ? [field, junctionField, streamLinkFieldName] : [field, streamLinkFieldName];
+				const item = await itemsService.readOne(primaryKey, { fields: [path.join('.')] });
+				const entries: any[] = Array.isArray(item?.[field]) ? item[field] : [];
+				return entries.flatMap((entry) => toStreamLinks(junctionField ? entry?.[junctionField]?.[streamLinkFieldName] : entry?.[streamLinkFieldName]));
+			}
+
+			const item = await itemsService.readOne(primaryKey, { fields: [field] });
+			return toStreamLinks(item?.[field]);
+		};
+
+		// Unsaved values are only signed for users who could save them - update for existing items, create for new ones
+		const canEditField = async (collection: string, field: string, primaryKey: string | number | null, accountability: any, schema: any): Promise<boolean> => {
+			if (accountability?.admin) return true;
+			if (!accountability?.user) return false;
+
+			const hasField = (fields: string[] | null | undefined) => !fields || fields.includes('*') || fields.includes(field);
+			const permissionsService = new PermissionsService({ schema, accountability });
+			try {
+				if (primaryKey !== null) {
+					const { update } = await permissionsService.getItemPermissions(collection, String(primaryKey));
+					return update.access && hasField(update.fields);
+				}
+				// Permissions of the own policies are readable with app access
+				const permissions = await permissionsService.readByQuery({
+					filter: { collection: { _eq: collection }, action: { _eq: 'create' } },
+					fields: ['fields'],
+					limit: -1
+				});
+				return permissions.some((permission: any) => hasField(permission.fields));
+			} catch (error) {
+				return false;
+			}
+		};
+
+		router.post('/sign', async (req: any, res: any, next: any) => {
+			try {
+				const { collection, field, value, primaryKey } = req.body || {};
+
+				if (typeof collection !== 'string' || typeof field !== 'string' || !collection || !field) {
+					return sendError(res, 400, '"collection" and "field" are required');
+				}
+
+				const accountability = req.accountability;
+				const schema = await getSchema();
+
+				const options = await readInterfaceOptions(collection, field, accountability, schema);
+				if (!options) {
+					return sendError(res, 400, `Field "${collection}.${field}" does not use the Streaming Video Player interface`);
+				}
+				// Include IP, server-only token algorithms and API resolved providers always require server-side signing
+				const provider = getStreamProvider(options.provider);
+				const tokenAlgorithm = getTokenAlgorithm(provider ? provider.tokenAlgorithm : options.token_algorithm);
+				if (!options.sign_on_server && !options.include_ip && !tokenAlgorithm.serverOnly && !provider?.resolve) {
+					return sendError(res, 403, `Server-side signing is not enabled for field "${collection}.${field}"`);
+				}
+
+				// Sign the stored value - reading the item also enforces the item permissions of the requesting user
+				// A different value is an unsaved edit, signed only for users allowed to save it
+				const hasPrimaryKey = primaryKey !== undefined && primaryKey !== null && primaryKey !== '+';
+				const requestedStreamLink = typeof value === 'string' && value ? value : null;
+				const storedStreamLinks = hasPrimaryKey ? await readStreamLinks(collection, field, primaryKey, options, accountability, schema) : [];
+				const streamLink = requestedStreamLink ?? storedStreamLinks[0] ?? null;
+
+				if (!streamLink) {
+					return sendError(res, 400, 'No stream link to sign');
+				}
+				if (!storedStreamLinks.includes(streamLink) && !(await canEditField(collection, field, hasPrimaryKey ? primaryKey : null, accountability, schema))) {
+					return sendError(res, 403, `Not allowed to sign unsaved values of field "${collection}.${field}"`);
+				}
+
+				// Provider videos looked up in the provider API - only the video ids stored in the item are resolved
+				const resolvesVideoId = !!provider?.resolve && !/^https?:\/\//.test(streamLink);
+				if (resolvesVideoId && !storedStreamLinks.includes(streamLink)) {
+					return sendError(res, 403, `Only stored video ids of field "${collection}.${field}" are resolved by ${provider!.name}`);
+				}
+
+				// Private keys of server-only algorithms and provider API keys never come from the (client visible) field option
+				const keyOwner = provider?.resolve ? provider : tokenAlgorithm.serverOnly ? tokenAlgorithm : null;
+				if (keyOwner && options.stream_secret) {
+					return sendError(res, 400, `The ${keyOwner.name} key of field "${collection}.${field}" must be set in the environment (${ENV_SECRET}), not in Stream Secret`);
+				}
+
+				// The secret from the environment takes precedence over the (client visible) field option
+				const streamSecret = readEnvSecret(env, collection, field, keyOwner?.id ?? tokenAlgorithm.id) || (keyOwner ? '' : options.stream_secret || '');
+				const publicUrl = String(env['PUBLIC_URL'] || '').replace(/\/+$/, '');
+				const expiresInMinutes = options.expires_in_minutes ?? 60;
+
+				// Directus resolves the client IP from the request, honouring IP_TRUST_PROXY and IP_CUSTOM_HEADER
+				const includeIp = !!options.include_ip;
+				const ip = includeIp ? normalizeClientIp(accountability?.ip ?? req.ip, (options.ipv6_handling || 'unmap') as Ipv6Handling) : null;
+				if (includeIp && !ip) {
+					return sendError(res, 400, 'Unable to determine the client IP address');
+				}
+
+				if (provider?.resolve && resolvesVideoId) {
+					const playback = await provider.resolve({
+						videoId: streamLink.replace(/^\/+/, ''),
+						secret: streamSecret,
+						streamFormat: options.stream_format ?? null,
+						fetchJson
+					});
+					return res.json({
+						data: {
+							...playback,
+							expires: Math.round(Date.now() / 1000) + expiresInMinutes * 60
+						}
+					});
+				}
+
+				const urlConfig: StreamUrlConfig = {
+					hostUrl: options.host_url,
+					urlSchema: options.url_schema,
+					streamSecret,
+					includeIp,
+					ip,
+					expiresInMinutes,
+					tokenAlgorithm: options.token_algorithm,
+					tokenKeyId: options.token_key_id,
+					tokenAcl: options.token_acl,
+					tokenStartOffset: options.token_start_offset,
+					tokenName: options.token_name,
+					signers,
+					provider: options.provider,
+					streamFormat: options.stream_format,
+					defaultHostUrl: publicUrl,
+					origin: publicUrl
+				};
+				const url = buildStreamUrl(streamLink, urlConfig);
+				const thumbnailUrl = provider && !/^https?:\/\//.test(streamLink) ? buildProviderUrl(streamLink, urlConfig, 'thumbnail') : null;
+
+				return res.json({
+					data: {
+						url,
+						thumbnailUrl,
+						expires: Math.round(Date.now() / 1000) + expiresInMinutes * 60
+					}
+				});
+			} catch (error) {
+				logger.warn(`[video-player] Failed to sign stream URL: ${(error as Error)?.message}`);
+				return next(error);
+			}
+		});
+
+		// ClearKey license stub - answers the license request of the browser with the keys of the field options
+		router.post('/clearkey', async (req: any, res: any, next: any) => {
+			try {
+				const { collection, field } = req.query || {};
+
+				if (typeof collection !== 'string' || typeof field !== 'string' || !collection || !field) {
+					return sendError(res, 400, '"collection" and "field" query parameters are required');
+				}
+
+				const schema = await getSchema();
+				const options = await readInterfaceOptions(collection, field, req.accountability, schema);
+				if (!options) {
+					return sendError(res, 400, `Field "${collection}.${field}" does not use the Streaming Video Player interface`);
+				}
+
+				const clearKeys = normalizeClearKeys(options.drm_clearkeys);
+				if (clearKeys.length === 0) {
+					return sendError(res, 403, `No ClearKey keys are configured for field "${collection}.${field}"`);
+				}
+
+				let licenseRequest: any;
+				try {
+					licenseRequest = await readJsonBody(req);
+				} catch (error) {
+					return sendError(res, 400, 'Invalid ClearKey license request');
+				}
+
+				// Answer the requested key ids only, all keys if the request doesn't list any
+				const requestedKids: string[] = Array.isArray(licenseRequest?.kids)
+					? licenseRequest.kids.map((kid: unknown) => String(kid).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, ''))
+					: [];
+				const keys = clearKeys
+					.map((clearKey) => ({ kty: 'oct', kid: hexToBase64Url(clearKey.kid), k: hexToBase64Url(clearKey.key) }))
+					.filter((key) => requestedKids.length === 0 || requestedKids.includes(key.kid));
+
+				return res.json({
+					keys,
+					type: licenseRequest?.type || 'temporary'
+				});
+			} catch (error) {
+				logger.warn(`[video-player] Failed to answer ClearKey license request: ${(error as Error)?.message}`);
+				return next(error);
+			}
+		});
+	},
+});
@@ -0,0 +1,512 @@
+/**
+ * dash.js player engine
+ */
+import * as dashjs from 'dashjs';
+import { formatQuality, formatQualityLevelLabel, formatTrackLabel, getCodecsFromMimeType, sortQualityLevels, type AudioTrack, type QualityLevel, type SubtitleTrack } from '../utils';
+import { addSegmentDownload, createEngineEvents } from './events';
+import { classifyHttpError, createPlaybackError, logRecoverableError, watchCspErrors, type PlaybackError } from './errors';
+import { getDrmLicenseUrl, type DrmConfig } from '../shared/drm';
+import type { EnginePlaybackStats, PlayerEngine, PlayerEngineOptions, SegmentDownload, ThumbnailTile } from './types';
+
+// dash.js error codes (MediaPlayerErrors) - loader and download failures, missing MSE/codec support, buffer
+// append failures and protection errors (100-199)
+const DASH_REQUEST_ERROR_CODES = [11, 12, 15, 17, 25, 26, 27, 28, 29];
+const DASH_MANIFEST_ERROR_CODES = [10, 31, 32, 34];
+// Media segments - dash.js retries them and skips ahead, only a refused or missing segment stops playback
+const DASH_SEGMENT_ERROR_CODES = [17, 27];
+const DASH_CODEC_ERROR_CODES = [23, 35, 201];
+const DASH_MEDIAKEYS_ERROR_CODE = 24;
+const DASH_APPEND_ERROR_CODE = 20;
+const UNRECOVERABLE_HTTP_STATUSES = [401, 403, 404, 410];
+
+/**
+ * dash.js protection data - the key system priority follows the configured order (0 = highest)
+ */
+function getDashProtectionData(drm: DrmConfig): dashjs.ProtectionDataSet {
+	const protectionData: dashjs.ProtectionDataSet = {};
+	drm.keySystems.forEach((keySystem, priority) => {
+		const serverURL = getDrmLicenseUrl(drm, keySystem);
+		if (serverURL) {
+			protectionData[keySystem] = { serverURL, httpRequestHeaders: drm.headers, priority };
+		}
+	});
+	return protectionData;
+}
+
+export function createDashEngine(options: PlayerEngineOptions = {}): PlayerEngine {
+	const { tokenRefresh, drm } = options;
+	const events = createEngineEvents();
+
+	let player: dashjs.MediaPlayerClass | null = null;
+	let videoEl: HTMLVideoElement | null = null;
+	let url: string | null = null;
+	let currentQuality: string | null = null;
+	let qualityLevels: QualityLevel[] = [];
+	let selectedQuality = -1;
+	let subtitleTracks: SubtitleTrack[] = [];
+	let selectedSubtitleTrack = -1;
+	let audioTracks: AudioTrack[] = [];
+	let selectedAudioTrack = -1;
+	let live = false;
+	let hasThumbnails = false;
+	// Quality index ABR requested last, the rendered quality follows once its segments play
+	let targetQualityIndex = -1;
+	let segmentDownloads: SegmentDownload[] = [];
+	const cleanups: Array<() => void> = [];
+
+	const setCurrentQuality = (height: number | undefined): boolean => {
+		const quality = formatQuality(height);
+		if (!quality) return false;
+		currentQuality = quality;
+		events.emit('quality', quality);
+		return true;
+	};
+
+	// Update quality - using official dash.js reference player approach
+	// Based on: https://github.com/Dash-Industry-Forum/dash.js/blob/development/samples/dash-if-reference-player/app/main.js
+	const updateQuality = (representation?: any) => {
+		if (!player) return;
+
+		try {
+			const playerAny = player as any;
+			let currentRep = representation;
+
+			// If representation provided from event, use it
+			if (currentRep && currentRep.height && setCurrentQuality(currentRep.height)) {
+				return;
+			}
+
+			// Try new API methods first
+			if (!currentRep) {
+				currentRep = playerAny.getCurrentRepresentationForType?.('video');
+			}
+
+			// Try old API methods as fallback (for older dash.js versions)
+			if (!currentRep) {
+				const qualityIndex = playerAny.getQualityFor?.('video');
+				if (qualityIndex !== undefined && qualityIndex !== null) {
+					const bitrateList = playerAny.getBitrateInfoListFor?.('video') || [];
+					if (bitrateList[qualityIndex]) {
+						currentRep = bitrateList[qualityIndex];
+					}
+				}
+			}
+
+			// Try getting from representations list
+			if (!currentRep) {
+				const representations = playerAny.getRepresentationsByType?.('video') || [];
+				if (representations.length > 0) {
+					const qualityIndex = playerAny.getQualityFor?.('video');
+					currentRep = (qualityIndex !== undefined && qualityIndex !== null && representations[qualityIndex]) || representations[0];
+				}
+			}
+
+			// Fallback: use video element dimensions
+			if ((!currentRep || !currentRep.height) && videoEl && setCurrentQuality(videoEl.videoHeight)) {
+				return;
+			}
+
+			if (currentRep && currentRep.height) {
+				setCurrentQuality(currentRep.height);
+			}
+		} catch (error) {
+			console.error('[DashPlayer] Error updating quality:', error);
+		}
+	};
+
+	// Publish the video representations for the quality menu
+	const updateQualityLevels = () => {
+		if (!player) return;
+		try {
+			const bitrateList = player.getBitrateInfoListFor('video') || [];
+			// The codecs of the active adaptation sets, dash.js doesn't list them per representation
+			const videoCodec = getCodecsFromMimeType(player.getCurrentTrackFor('video')?.codec);
+			const audioCodec = getCodecsFromMimeType(player.getCurrentTrackFor('audio')?.codec);
+			qualityLevels = sortQualityLevels(bitrateList.map((info, index) => ({
+				index: info.qualityIndex ?? index,
+				width: info.width,
+				height: info.height,
+				bitrate: info.bitrate,
+				videoCodec,
+				audioCodec,
+				label: formatQualityLevelLabel(formatQuality(info.height), info.width, info.height, info.bitrate)
+			})));
+			events.emit('levels', qualityLevels);
+		} catch (error) {
+			console.warn('[DashPlayer] Error reading video representations:', error);
+		}
+	};
+
+	// Publish the text adaptation sets for the captions menu
+	const updateSubtitleTracks = () => {
+		if (!player) return;
+		try {
+			const textTracks = player.getTracksFor('text') || [];
+			subtitleTracks = textTracks.map((track: any, index: number) => ({
+				index,
+				language: track.lang || undefined,
+				label: formatTrackLabel(track.labels?.[0]?.text, track.lang || undefined, index)
+			}));
+			selectedSubtitleTrack = player.getCurrentTextTrackIndex();
+			events.emit('tracks', undefined);
+		} catch (error) {
+			console.warn('[DashPlayer] Error reading text tracks:', error);
+		}
+	};
+
+	// Publish the audio adaptation sets (e.g., languages) for the audio menu
+	const updateAudioTracks = () => {
+		if (!player) return;
+		try {
+			const tracks = player.getTracksFor('audio') || [];
+			const currentTrack = player.getCurrentTrackFor('audio');
+			audioTracks = tracks.map((track: any, index: number) => ({
+				index,
+				language: track.lang || undefined,
+				label: formatTrackLabel(track.labels?.[0]?.text, track.lang || undefined, index)
+			}));
+			selectedAudioTrack = currentTrack ? tracks.findIndex((track) => track.index === currentTrack.index) : -1;
+			events.emit('tracks', undefined);
+		} catch (error) {
+			console.warn('[DashPlayer] Error reading audio tracks:', error);
+		}
+	};
+
+	// dash.js errors carry no HTTP status, the HTTP request metrics have it (null = no response, e.g. blocked by CORS)
+	const getFailedRequestStatus = (): number | null => {
+		const metrics = player?.getDashMetrics();
+		if (!metrics) return null;
+		for (const type of ['stream', 'video', 'audio']) {
+			const requests = (metrics.getHttpRequests(type as dashjs.MediaType) || []) as Array<{ responsecode?: number | null }>;
+			const failed = [...requests].reverse().find((request) => (request.responsecode ?? 0) >= 400);
+			if (failed) return failed.responsecode!;
+		}
+		return null;
+	};
+
+	// Classify a dash.js error by its code (MediaPlayerErrors)
+	const toPlaybackError = (error: { code?: number; message?: string } | undefined, streamUrl: string): PlaybackError => {
+		const code = error?.code ?? 0;
+		const details = error?.message || (code ? `dash.js error ${code}` : 'DASH playback error');
+
+		if (DASH_REQUEST_ERROR_CODES.includes(code)) {
+			return classifyHttpError(getFailedRequestStatus(), streamUrl, details);
+		}
+		if (code === DASH_MEDIAKEYS_ERROR_CODE || (code >= 100 && code < 200)) {
+			return createPlaybackError('drm', details);
+		}
+		if (DASH_CODEC_ERROR_CODES.includes(code)) {
+			return createPlaybackError('codec', details);
+		}
+		return createPlaybackError('decode', details);
+	};
+
+	// Manifest and download failures, missing MediaSource/codec support and protection errors stop playback - others
+	// (e.g. 33, a subtitle that fails to parse) are recovered by dash.js
+	const isFatalError = (code: number): boolean => {
+		if (DASH_SEGMENT_ERROR_CODES.includes(code)) {
+			return UNRECOVERABLE_HTTP_STATUSES.includes(getFailedRequestStatus() ?? 0);
+		}
+		return DASH_REQUEST_ERROR_CODES.includes(code)
+			|| DASH_MANIFEST_ERROR_CODES.includes(code)
+			|| DASH_CODEC_ERROR_CODES.includes(code)
+			|| code === DASH_APPEND_ERROR_CODE
+			|| code === DASH_MEDIAKEYS_ERROR_CODE
+			|| (code >= 100 && code < 200);
+	};
+
+	const attach = (element: HTMLVideoElement) => {
+		videoEl = element;
+		cleanups.push(watchCspErrors(element, 'dash', (error) => events.emit('fatalError', error)));
+	};
+
+	const load = (streamUrl: string) => {
+		if (!videoEl) {
+			throw new Error('[DashPlayer] attach() must be called before load()');
+		}
+		const video = videoEl;
+		url = streamUrl;
+
+		const instance = dashjs.MediaPlayer().create();
+		player = instance;
+
+		instance.updateSettings({
+			streaming: {
+				buffer: {
+					bufferTimeAtTopQuality: 30,
+					bufferTimeAtTopQualityLongForm: 30,
+					longFormContentDurationThreshold: 600,
+					initialBufferLevel: 30,
+					fastSwitchEnabled: true
+				},
+				abr: {
+					useDefaultABRRules: true,
+					initialBitrate: {
+						audio: -1,
+						video: -1
+					}
+				}
+			}
+		});
+
+		const Events = dashjs.MediaPlayer.events;
+
+		// Representations are available once the stream is initialized
+		instance.on(Events.STREAM_INITIALIZED, () => {
+			updateQualityLevels();
+			updateAudioTracks();
+			updateQuality();
+			// Dynamic MPDs are live, the time shift buffer is the DVR window
+			if (instance.isDynamic() !== live) {
+				live = instance.isDynamic();
+				events.emit('live', live);
+			}
+			// Image adaptation sets (thumbnail tiles) provide the seek bar thumbnails
+			instance.provideThumbnail(instance.time() || 0, (thumbnail) => {
+				if (thumbnail && player === instance && !hasThumbnails) {
+					hasThumbnails = true;
+					events.emit('thumbnails', undefined);
+				}
+			});
+		});
+
+		// Quality changes - the event provides the new representation directly
+		instance.on(Events.QUALITY_CHANGE_RENDERED, (e: any) => {
+			if (e && e.newRepresentation && e.mediaType === 'video') {
+				updateQuality(e.newRepresentation);
+			} else {
+				updateQuality();
+			}
+		});
+
+		instance.on(Events.QUALITY_CHANGE_REQUESTED, (e) => {
+			if (e.mediaType === 'video') targetQualityIndex = e.newQuality;
+		});
+
+		// Download times of video and audio segments for the statistics overlay
+		instance.on(Events.FRAGMENT_LOADING_COMPLETED, (e) => {
+			const request = e.request;
+			if (!request || (request.mediaType !== 'video' && request.mediaType !== 'audio') || !request.requestEndDate) return;
+			segmentDownloads = addSegmentDownload(segmentDownloads, {
+				duration: request.requestEndDate.getTime() - request.requestStartDate.getTime(),
+				bytes: request.bytesLoaded
+			});
+		});
+
+		instance.on(Events.TRACK_CHANGE_RENDERED, (e: any) => {
+			if (e?.mediaType === 'audio') {
+				updateAudioTracks();
+			}
+		});
+
+		// Text tracks are available once the text adaptation sets are added to the video element
+		instance.on(Events.TEXT_TRACKS_ADDED, updateSubtitleTracks);
+
+		// dash.js retries downloads itself - a media (append) error is recovered once by reloading the source at the playhead
+		let mediaRecovered = false;
+		instance.on(Events.ERROR, (e: any) => {
+			if (e?.error?.code === DASH_APPEND_ERROR_CODE && !mediaRecovered) {
+				console.warn('[DashPlayer] Recovering from media error:', e.error.message);
+				mediaRecovered = true;
+				instance.attachSource(streamUrl, video.currentTime);
+				return;
+			}
+			if (!isFatalError(e?.error?.code ?? 0)) {
+				logRecoverableError('dash', e?.error?.message || `dash.js error ${e?.error?.code}`);
+				return;
+			}
+			events.emit('fatalError', toPlaybackError(e?.error, streamUrl));
+		});
+
+		// Video element metadata as fallback for the quality label
+		const onVideoUpdate = () => setTimeout(() => updateQuality(), 300);
+		video.addEventListener('loadedmetadata', onVideoUpdate);
+		video.addEventListener('playing', onVideoUpdate);
+		cleanups.push(() => {
+			video.removeEventListener('loadedmetadata', onVideoUpdate);
+			video.removeEventListener('playing', onVideoUpdate);
+		});
+
+		// Requests use the latest stream token (must be registered before initialize)
+		tokenRefresh?.attachDashRequestModifier(instance);
+
+		// Encrypted streams - license servers must be known before the manifest is loaded
+		if (drm) {
+			instance.setProtectionData(getDashProtectionData(drm));
+		}
+
+		instance.initialize(video, streamUrl, false);
+		tokenRefresh?.startTokenRefresh(streamUrl);
+	};
+
+	const destroy = () => {
+		cleanups.splice(0).forEach((cleanup) => cleanup());
+		if (player) {
+			try {
+				player.reset();
+				player.destroy();
+			} catch (error) {
+				console.warn('[DashPlayer] Error cleaning up DASH player:', error);
+			}
+			player = null;
+			tokenRefresh?.stopTokenRefresh();
+		}
+		events.clear();
+		videoEl = null;
+		url = null;
+		currentQuality = null;
+		qualityLevels = [];
+		selectedQuality = -1;
+		subtitleTracks = [];
+		selectedSubtitleTrack = -1;
+		audioTracks = [];
+		selectedAudioTrack = -1;
+		live = false;
+		hasThumbnails = false;
+		targetQualityIndex = -1;
+		segmentDownloads = [];
+	};
+
+	const setQuality = (index: number) => {
+		if (!player) return;
+		try {
+			// Pinning a representation requires disabling ABR for video, "Auto" re-enables it
+			const autoSwitch = index < 0;
+			player.updateSettings({
+				streaming: {
+					abr: {
+						autoSwitchBitrate: {
+							video: autoSwitch
+						}
+					}
+				}
+			});
+			if (!autoSwitch) {
+				player.setQualityFor('video', index, true);
+			}
+			selectedQuality = index;
+			events.emit('levels', qualityLevels);
+		} catch (error) {
+			console.error('[DashPlayer] Error switching quality:', error);
+		}
+	};
+
+	const setSubtitleTrack = (index: number) => {
+		if (!player) return;
+		try {
+			// -1 turns subtitles off
+			player.enableText(index >= 0);
+			player.setTextTrack(index);
+			selectedSubtitleTrack = index;
+			events.emit('tracks', undefined);
+		} catch (error) {
+			console.error('[DashPlayer] Error switching text track:', error);
+		}
+	};
+
+	const setAudioTrack = (index: number) => {
+		if (!player || index < 0) return;
+		try {
+			const track = player.getTracksFor('audio')[index];
+			if (track) {
+				player.setCurrentTrack(track);
+				selectedAudioTrack = index;
+				events.emit('tracks', undefined);
+			}
+		} catch (error) {
+			console.error('[DashPlayer] Error switching audio track:', error);
+		}
+	};
+
+	const getLiveLatency = (): number | null => {
+		if (!player || !live) return null;
+		const latency = player.getCurrentLiveLatency();
+		return Number.isFinite(latency) ? latency : null;
+	};
+
+	const getTargetLatency = (): number | null => {
+		if (!player || !live) return null;
+		const targetLatency = player.getTargetLiveDelay();
+		return Number.isFinite(targetLatency) && targetLatency > 0 ? targetLatency : null;
+	};
+
+	const getThumbnail = (time: number): Promise<ThumbnailTile | null> => {
+		const instance = player;
+		if (!instance || !hasThumbnails) return Promise.resolve(null);
+		return new Promise((resolve) => {
+			try {
+				instance.provideThumbnail(time, (thumbnail) => {
+					resolve(thumbnail ? { url: thumbnail.url, x: thumbnail.x, y: thumbnail.y, width: thumbnail.width, height: thumbnail.height } : null);
+				});
+			} catch (error) {
+				console.warn('[DashPlayer] Error reading thumbnail:', error);
+				resolve(null);
+			}
+		});
+	};
+
+	const getPlaybackStats = (): EnginePlaybackStats => {
+		const stats: EnginePlaybackStats = {
+			currentBitrate: null,
+			targetBitrate: null,
+			bandwidthEstimate: null,
+			videoCodec: null,
+			audioCodec: null,
+			segmentDownloads
+		};
+		if (!player) return stats;
+		try {
+			const bitrateList = player.getBitrateInfoListFor('video') || [];
+			const getBitrate = (qualityIndex: number) => bitrateList.find((info) => info.qualityIndex === qualityIndex)?.bitrate ?? bitrateList[qualityIndex]?.bitrate ?? null;
+			const currentQualityIndex = player.getQualityFor('video');
+			stats.currentBitrate = getBitrate(currentQualityIndex);
+			stats.targetBitrate = getBitrate(targetQualityIndex >= 0 ? targetQualityIndex : currentQualityIndex);
+			// Average throughput in kbit/s
+			const throughput = player.getAverageThroughput('video');
+			stats.bandwidthEstimate = Number.isFinite(throughput) && throughput > 0 ? throughput * 1000 : null;
+			stats.videoCodec = getCodecsFromMimeType(player.getCurrentTrackFor('video')?.codec) ?? null;
+			stats.audioCodec = getCodecsFromMimeType(player.getCurrentTrackFor('audio')?.codec) ?? null;
+		} catch (error) {
+			// Not initialized yet
+		}
+		return stats;
+	};
+
+	const seekToLive = () => {
+		if (!player || !live) return;
+		try {
+			// Back to the live delay the playback started with
+			player.seekToOriginalLive();
+		} catch (error) {
+			console.error('[DashPlayer] Error seeking to live edge:', error);
+		}
+	};
+
+	return {
+		kind: 'dash',
+		get url() {
+			return url;
+		},
+		attach,
+		load,
+		destroy,
+		getQualityLevels: () => qualityLevels,
+		getSelectedQuality: () => selectedQuality,
+		getCurrentQuality: () => currentQuality,
+		setQuality,
+		getSubtitleTracks: () => subtitleTracks,
+		getSelectedSubtitleTrack: () => selectedSubtitleTrack,
+		setSubtitleTrack,
+		getAudioTracks: () => audioTracks,
+		getSelectedAudioTrack: () => selectedAudioTrack,
+		setAudioTrack,
+		isLive: () => live,
+		getLiveLatency,
+		getTargetLatency,
+		seekToLive,
+		hasThumbnails: () => hasThumbnails,
+		getThumbnail,
+		getPlaybackStats,
+		on: events.on
+	};
+}
@@ -0,0 +1,528 @@
+/**
+ * Stream health check - fetches the HLS playlists or the MPD, samples the first segment of every rendition
+ * and reports HTTP status, CORS, Content-Type, segment duration consistency and token expiry
+ *
+ * Browsers don't expose the Access-Control-* response headers to scripts, so CORS is reported from
+ * whether a cross-origin request was allowed at all.
+ */
+import { formatBitrate } from '../utils';
+import { parseAttributes } from './iframeThumbnails';
+import { getFormatFromContent, getFormatFromContentType, guessStreamFormat } from './probe';
+import type { PlayerEngineKind } from './types';
+
+// Severity of a check, the types of v-notice
+export type DiagnosticStatus = 'success' | 'info' | 'warning' | 'danger';
+
+export interface DiagnosticCheck {
+	status: DiagnosticStatus;
+	title: string;
+	details: string[];
+}
+
+export interface StreamDiagnosticsReport {
+	url: string;
+	format: PlayerEngineKind | null;
+	checkedAt: Date;
+	checks: DiagnosticCheck[];
+}
+
+interface FetchResult {
+	url: string;
+	status: number | null;
+	contentType: string | null;
+	crossOrigin: boolean;
+	text: string;
+	error: string | null;
+}
+
+// Rendition of a playlist or MPD with the URLs needed to sample it
+interface Rendition {
+	label: string;
+	playlistUrl?: string;
+	initSegmentUrl?: string;
+	firstSegmentUrl?: string;
+	segmentDurations: number[];
+	targetDuration?: number;
+	details: string[];
+}
+
+const FETCH_TIMEOUT = 10000;
+const SAMPLE_BYTES = 1024;
+// Every rendition costs up to three requests
+const MAX_RENDITIONS = 12;
+// Seconds segments may differ from each other (the last segment is usually shorter)
+const DURATION_TOLERANCE = 1;
+const MAX_TIMELINE_SEGMENTS = 1000;
+// Tokens expiring sooner can't cover a viewing session
+const TOKEN_EXPIRY_WARNING = 5 * 60 * 1000;
+
+const EXPIRY_QUERY_PARAMETERS = ['expires', 'expire', 'exp', 'e', 'expiry', 'validto', 'wowzatokenendtime', 'token_expires'];
+const HLS_CONTENT_TYPES = ['application/vnd.apple.mpegurl', 'application/x-mpegurl', 'audio/mpegurl', 'audio/x-mpegurl'];
+const DASH_CONTENT_TYPES = ['application/dash+xml'];
+
+const STATUS_SEVERITY: Record<DiagnosticStatus, number> = { success: 0, info: 1, warning: 2, danger: 3 };
+
+const worstStatus = (statuses: DiagnosticStatus[]): DiagnosticStatus => {
+	return statuses.reduce<DiagnosticStatus>((worst, status) => STATUS_SEVERITY[status] > STATUS_SEVERITY[worst] ? status : worst, 'success');
+};
+
+const getMimeType = (contentType: string | null): string => (contentType || '').split(';')[0].trim().toLowerCase();
+
+const resolveUrl = (url: string, baseUrl: string): string => {
+	try {
+		return new URL(url, baseUrl).href;
+	} catch (error) {
+		return url;
+	}
+};
+
+export const isCrossOrigin = (url: string): boolean => {
+	try {
+		return new URL(url, window.location.href).origin !== window.location.origin;
+	} catch (error) {
+		return false;
+	}
+};
+
+async function fetchResource(url: string, range = false): Promise<FetchResult> {
+	const crossOrigin = isCrossOrigin(url);
+	const controller = new AbortController();
+	const timeout = setTimeout(() => controller.abort(), FETCH_TIMEOUT);
+	try {
+		const response = await fetch(url, {
+			signal: controller.signal,
+			headers: range ? { Range: `bytes=0-${SAMPLE_BYTES - 1}` } : undefined
+		});
+		// Segments are only sampled, manifests are read completely
+		const text = range ? '' : await response.text();
+		return { url, status: response.status, contentType: response.headers.get('Content-Type'), crossOrigin, text, error: null };
+	} catch (error) {
+		const message = (error as Error)?.name === 'AbortError'
+			? `No response within ${FETCH_TIMEOUT / 1000}s`
+			: crossOrigin
+				? 'Request blocked - the server sends no CORS headers for this origin, or is unreachable'
+				: 'Request failed - the server is unreachable';
+		return { url, status: null, contentType: null, crossOrigin, text: '', error: message };
+	} finally {
+		clearTimeout(timeout);
+	}
+}
+
+const isOk = (result: FetchResult) => result.status !== null && result.status >= 200 && result.status < 300;
+
+// One line per request, e.g. "First segment: HTTP 206, video/mp2t, CORS allowed"
+function describeResult(label: string, result: FetchResult): string {
+	if (result.error) return `${label}: ${result.error}`;
+	const parts = [`HTTP ${result.status}`, result.contentType ? getMimeType(result.contentType) : 'no Content-Type'];
+	if (result.crossOrigin) parts.push('CORS allowed');
+	return `${label}: ${parts.join(', ')}`;
+}
+
+function getResultStatus(result: FetchResult, expectedContentTypes?: string[]): DiagnosticStatus {
+	if (!isOk(result)) return 'danger';
+	const mimeType = getMimeType(result.contentType);
+	if (expectedContentTypes && !expectedContentTypes.includes(mimeType)) return 'warning';
+	return 'success';
+}
+
+function getSegmentStatus(result: FetchResult): DiagnosticStatus {
+	if (!isOk(result)) return 'danger';
+	const mimeType = getMimeType(result.contentType);
+	// HTML or JSON instead of media is usually an error or login page
+	if (mimeType.startsWith('text/html') || mimeType === 'application/json') return 'danger';
+	if (mimeType.startsWith('video/') || mimeType.startsWith('audio/') || mimeType === 'application/mp4') return 'success';
+	return 'warning';
+}
+
+/**
+ * Get the expiry of a signed URL - query parameters (nginx, Bunny, Wowza), Akamai hdnts, CloudFront policies or an epoch path segment
+ */
+export function getTokenExpiry(url: string): Date | null {
+	let parsedUrl: URL;
+	try {
+		parsedUrl = new URL(url, window.location.href);
+	} catch (error) {
+		return null;
+	}
+
+	const toDate = (value: string | number | null | undefined): Date | null => {
+		const timestamp = Number(value);
+		if (!value || !Number.isFinite(timestamp) || timestamp <= 0) return null;
+		// Epoch seconds or milliseconds
+		return new Date(timestamp < 1e11 ? timestamp * 1000 : timestamp);
+	};
+
+	for (const [key, value] of parsedUrl.searchParams) {
+		const name = key.toLowerCase();
+		if (EXPIRY_QUERY_PARAMETERS.includes(name)) {
+			const date = toDate(value);
+			if (date) return date;
+		}
+		// Akamai EdgeAuth, e.g. hdnts=st=...~exp=1700000000~acl=...~hmac=...
+		if (name === 'hdnts' || name === '__token__') {
+			const date = toDate(value.match(/(?:^|~)exp=(\d+)/)?.[1]);
+			if (date) return date;
+		}
+		// CloudFront custom policy (URL-safe base64 JSON)
+		if (name === 'policy') {
+			try {
+				const policy = JSON.parse(atob(value.replace(/-/g, '+').replace(/_/g, '=').replace(/~/g, '/')));
+				const date = toDate(policy?.Statement?.[0]?.Condition?.DateLessThan?.['AWS:EpochTime']);
+				if (date) return date;
+			} catch (error) {
+				// Not a readable policy
+			}
+		}
+	}
+
+	// Path tokens, e.g. /{{token}}/{{expires}}/video.m3u8 - epoch seconds within the next years
+	const now = Date.now() / 1000;
+	const pathExpiry = parsedUrl.pathname.split('/').find((segment) => /^\d{10}$/.test(segment) && Math.abs(Number(segment) - now) < 10 * 365 * 24 * 3600);
+	return toDate(pathExpiry);
+}
+
+const formatDuration = (milliseconds: number): string => {
+	const minutes = Math.round(Math.abs(milliseconds) / 60000);
+	if (minutes < 1) return 'less than a minute';
+	if (minutes < 120) return `${minutes} min`;
+	return `${Math.round(minutes / 60)} h`;
+};
+
+function checkTokenExpiry(urls: string[]): DiagnosticCheck {
+	const expiries = [...new Set(urls)].map((url) => ({ url, expiry: getTokenExpiry(url) })).filter((entry) => entry.expiry);
+	if (expiries.length === 0) {
+		return { status: 'info', title: 'Token', details: ['No expiry found in the stream link, the stream is public or signed with a token the player can\'t read'] };
+	}
+
+	const now = Date.now();
+	const earliest = expiries.reduce((first, entry) => entry.expiry!.getTime() < first.expiry!.getTime() ? entry : first);
+	const remaining = earliest.expiry!.getTime() - now;
+	const expiresAt = earliest.expiry!.toLocaleString();
+	const source = earliest.url === urls[0] ? 'stream link' : 'playlist or segment link';
+
+	if (remaining <= 0) {
+		return { status: 'danger', title: 'Token Expired', details: [`The ${source} expired ${formatDuration(remaining)} ago (${expiresAt})`, 'Check the token expiration and that the clocks of Directus and the streaming server are in sync'] };
+	}
+	if (remaining < TOKEN_EXPIRY_WARNING) {
+		return { status: 'warning', title: 'Token Expires Soon', details: [`The ${source} expires in ${formatDuration(remaining)} (${expiresAt})`] };
+	}
+	return { status: 'success', title: 'Token', details: [`The ${source} is valid for ${formatDuration(remaining)} (until ${expiresAt})`] };
+}
+
+/**
+ * Compare the segment durations of a rendition with each other and its target duration
+ */
+function checkSegmentDurations(rendition: Rendition): { status: DiagnosticStatus; detail: string } | null {
+	const durations = rendition.segmentDurations;
+	if (durations.length === 0) return null;
+
+	const round = (seconds: number) => Math.round(seconds * 1000) / 1000;
+	// The last segment is usually shorter
+	const comparable = durations.length > 1 ? durations.slice(0, -1) : durations;
+	const shortest = Math.min(...comparable);
+	const longest = Math.max(...comparable);
+	const summary = `${durations.length} segment${durations.length === 1 ? '' : 's'}, ${round(shortest)}s${longest !== shortest ? ` to ${round(longest)}s` : ''}`;
+
+	const targetDuration = rendition.targetDuration;
+	if (targetDuration && Math.max(...durations) > targetDuration + 0.5) {
+		return { status: 'danger', detail: `Segments: ${summary} - longer than the target duration of ${targetDuration}s` };
+	}
+	if (longest - shortest > DURATION_TOLERANCE) {
+		return { status: 'warning', detail: `Segments: ${summary} - inconsistent durations make switching renditions stall` };
+	}
+	return { status: 'success', detail: `Segments: ${summary}${targetDuration ? ` (target ${targetDuration}s)` : ''}` };
+}
+
+/**
+ * Parse an HLS media playlist (durations, first segment, init segment, encryption)
+ */
+function parseMediaPlaylist(playlist: string, playlistUrl: string, rendition: Rendition) {
+	const lines = playlist.split(/\r?\n/).map((line) => line.trim());
+	lines.forEach((line, index) => {
+		if (line.startsWith('#EXT-X-TARGETDURATION:')) {
+			rendition.targetDuration = Number(line.substring('#EXT-X-TARGETDURATION:'.length));
+		} else if (line.startsWith('#EXTINF:')) {
+			rendition.segmentDurations.push(parseFloat(line.substring('#EXTINF:'.length)));
+			const uri = lines.slice(index + 1).find((nextLine) => nextLine && !nextLine.startsWith('#'));
+			if (uri && !rendition.firstSegmentUrl) rendition.firstSegmentUrl = resolveUrl(uri, playlistUrl);
+		} else if (line.startsWith('#EXT-X-MAP:') && !rendition.initSegmentUrl) {
+			const uri = parseAttributes(line.substring('#EXT-X-MAP:'.length)).URI;
+			if (uri) rendition.initSegmentUrl = resolveUrl(uri, playlistUrl);
+		} else if (line.startsWith('#EXT-X-KEY:')) {
+			const method = parseAttributes(line.substring('#EXT-X-KEY:'.length)).METHOD;
+			if (method && method !== 'NONE' && !rendition.details.some((detail) => detail.startsWith('Encryption'))) {
+				rendition.details.push(`Encryption: ${method}`);
+			}
+		}
+	});
+	if (!lines.includes('#EXT-X-ENDLIST')) {
+		rendition.details.push('Live playlist (no EXT-X-ENDLIST)');
+	}
+}
+
+/**
+ * Get the renditions of a multivariant playlist (variant streams and alternate audio/subtitle renditions)
+ */
+function getHlsRenditions(manifest: string, manifestUrl: string): Rendition[] {
+	const lines = manifest.split(/\r?\n/).map((line) => line.trim());
+	const renditions: Rendition[] = [];
+
+	lines.forEach((line, index) => {
+		if (line.startsWith('#EXT-X-STREAM-INF:')) {
+			const attributes = parseAttributes(line.substring('#EXT-X-STREAM-INF:'.length));
+			const uri = lines.slice(index + 1).find((nextLine) => nextLine && !nextLine.startsWith('#'));
+			if (!uri) return;
+			const label = [attributes.RESOLUTION, formatBitrate(Number(attributes.BANDWIDTH)), attributes.CODECS].filter(Boolean).join(', ');
+			renditions.push({ label: `Variant ${label || uri}`, playlistUrl: resolveUrl(uri, manifestUrl), segmentDurations: [], details: [] });
+		} else if (line.startsWith('#EXT-X-MEDIA:')) {
+			const attributes = parseAttributes(line.substring('#EXT-X-MEDIA:'.length));
+			if (!attributes.URI) return;
+			const label = [attributes.NAME, attributes.LANGUAGE && `(${attributes.LANGUAGE})`].filter(Boolean).join(' ');
+			const type = attributes.TYPE ? attributes.TYPE.charAt(0) + attributes.TYPE.slice(1).toLowerCase() : 'Media';
+			renditions.push({ label: `${type} ${label}`.trim(), playlistUrl: resolveUrl(attributes.URI, manifestUrl), segmentDurations: [], details: [] });
+		}
+	});
+
+	return renditions;
+}
+
+const getChildren = (element: Element | null | undefined, name: string): Element[] => {
+	return element ? Array.from(element.children).filter((child) => child.localName === name) : [];
+};
+
+// Attribute of the element or the nearest ancestor of the hierarchy that sets it (Representation, AdaptationSet, Period)
+const getInherited = (elements: Array<Element | null | undefined>, attribute: string): string | null => {
+	for (const element of elements) {
+		const value = element?.getAttribute(attribute);
+		if (value) return value;
+	}
+	return null;
+};
+
+/**
+ * Fill a SegmentTemplate, e.g. "chunk-$RepresentationID$-$Number%05d$.m4s"
+ */
+function fillTemplate(template: string, values: { representationId: string; bandwidth: string; number: number; time: number }): string {
+	return template.replace(/\$(RepresentationID|Bandwidth|Number|Time)(?:%0(\d+)d)?\$|\$\$/g, (match, name, width) => {
+		if (match === '$$') return '$';
+		const value = String({ RepresentationID: values.representationId, Bandwidth: values.bandwidth, Number: values.number, Time: values.time }[name as 'Number']);
+		return width ? value.padStart(Number(width), '0') : value;
+	});
+}
+
+/**
+ * Get the representations of an MPD with their first segments and segment durations
+ */
+function getDashRenditions(manifest: string, manifestUrl: string): Rendition[] {
+	const document = new DOMParser().parseFromString(manifest, 'application/xml');
+	const mpd = document.documentElement;
+	if (!mpd || mpd.localName !== 'MPD') {
+		throw new Error('The manifest is not a valid MPD');
+	}
+
+	const withBaseUrl = (element: Element, baseUrl: string) => {
+		const base = getChildren(element, 'BaseURL')[0]?.textContent?.trim();
+		return base ? resolveUrl(base, baseUrl) : baseUrl;
+	};
+
+	const renditions: Rendition[] = [];
+	const mpdBaseUrl = withBaseUrl(mpd, manifestUrl);
+	const period = getChildren(mpd, 'Period')[0];
+	if (!period) return renditions;
+	const periodBaseUrl = withBaseUrl(period, mpdBaseUrl);
+
+	getChildren(period, 'AdaptationSet').forEach((adaptationSet) => {
+		const adaptationSetBaseUrl = withBaseUrl(adaptationSet, periodBaseUrl);
+		getChildren(adaptationSet, 'Representation').forEach((representation) => {
+			const baseUrl = withBaseUrl(representation, adaptationSetBaseUrl);
+			const id = representation.getAttribute('id') || '';
+			const bandwidth = representation.getAttribute('bandwidth') || '';
+			const mimeType = getInherited([representation, adaptationSet], 'mimeType') || getInherited([representation, adaptationSet], 'contentType') || '';
+			const width = representation.getAttribute('width');
+			const height = representation.getAttribute('height');
+			const label = [
+				mimeType.split('/')[0] || 'Representation',
+				id && `"${id}"`,
+				width && height ? `${width}x${height}` : '',
+				formatBitrate(Number(bandwidth)),
+				getInherited([representation, adaptationSet], 'codecs')
+			].filter(Boolean).join(' ');
+			const rendition: Rendition = { label, segmentDurations: [], details: [] };
+
+			const segmentTemplate = [representation, adaptationSet, period].map((element) => getChildren(element, 'SegmentTemplate')[0]).filter(Boolean);
+			const segmentList = getChildren(representation, 'SegmentList')[0] || getChildren(adaptationSet, 'SegmentList')[0];
+
+			if (segmentTemplate.length > 0) {
+				const media = getInherited(segmentTemplate, 'media');
+				const initialization = getInherited(segmentTemplate, 'initialization');
+				const timescale = Number(getInherited(segmentTemplate, 'timescale') || 1);
+				const startNumber = Number(getInherited(segmentTemplate, 'startNumber') || 1);
+				const timeline = segmentTemplate.map((element) => getChildren(element, 'SegmentTimeline')[0]).find(Boolean);
+				let firstTime = 0;
+
+				if (timeline) {
+					getChildren(timeline, 'S').forEach((segment, index) => {
+						if (index === 0) firstTime = Number(segment.getAttribute('t') || 0);
+						const repeat = Math.max(0, Number(segment.getAttribute('r') || 0));
+						const duration = Number(segment.getAttribute('d') || 0) / timescale;
+						for (let count = 0; count <= repeat && rendition.segmentDurations.length < MAX_TIMELINE_SEGMENTS; count++) {
+							rendition.segmentDurations.push(duration);
+						}
+					});
+				} else if (getInherited(segmentTemplate, 'duration')) {
+					rendition.segmentDurations.push(Number(getInherited(segmentTemplate, 'duration')) / timescale);
+				}
+
+				const values = { representationId: id, bandwidth, number: startNumber, time: firstTime };
+				if (initialization) rendition.initSegmentUrl = resolveUrl(fillTemplate(initialization, values), baseUrl);
+				if (media) rendition.firstSegmentUrl = resolveUrl(fillTemplate(media, values), baseUrl);
+			} else if (segmentList) {
+				const timescale = Number(segmentList.getAttribute('timescale') || 1);
+				const duration = Number(segmentList.getAttribute('duration') || 0) / timescale;
+				const segmentUrls = getChildren(segmentList, 'SegmentURL');
+				if (duration) rendition.segmentDurations = segmentUrls.map(() => duration);
+				const initialization = getChildren(segmentList, 'Initialization')[0]?.getAttribute('sourceURL');
+				if (initialization) rendition.initSegmentUrl = resolveUrl(initialization, baseUrl);
+				const firstMedia = segmentUrls[0]?.getAttribute('media');
+				rendition.firstSegmentUrl = firstMedia ? resolveUrl(firstMedia, baseUrl) : baseUrl;
+			} else {
+				// SegmentBase - one file per representation, addressed by byte ranges
+				rendition.firstSegmentUrl = baseUrl;
+				rendition.details.push('Single file representation (SegmentBase)');
+			}
+
+			if (getChildren(adaptationSet, 'ContentProtection').length > 0 || getChildren(representation, 'ContentProtection').length > 0) {
+				rendition.details.push('Encryption: ContentProtection');
+			}
+			renditions.push(rendition);
+		});
+	});
+
+	if (mpd.getAttribute('type') === 'dynamic') {
+		renditions.forEach((rendition) => rendition.details.push('Live MPD (type="dynamic")'));
+	}
+	return renditions;
+}
+
+/**
+ * Fetch the playlist and sample the segments of a rendition
+ */
+async function checkRendition(rendition: Rendition, isHls: boolean): Promise<DiagnosticCheck> {
+	const statuses: DiagnosticStatus[] = [];
+	const details: string[] = [];
+
+	if (rendition.playlistUrl) {
+		const playlist = await fetchResource(rendition.playlistUrl);
+		statuses.push(getResultStatus(playlist, HLS_CONTENT_TYPES));
+		details.push(describeResult('Playlist', playlist));
+		if (!isOk(playlist)) {
+			return { status: 'danger', title: rendition.label, details };
+		}
+		if (isHls) parseMediaPlaylist(playlist.text, rendition.playlistUrl, rendition);
+	}
+
+	if (rendition.initSegmentUrl) {
+		const initSegment = await fetchResource(rendition.initSegmentUrl, true);
+		statuses.push(getSegmentStatus(initSegment));
+		details.push(describeResult('Init segment', initSegment));
+	}
+
+	if (rendition.firstSegmentUrl) {
+		const firstSegment = await fetchResource(rendition.firstSegmentUrl, true);
+		statuses.push(getSegmentStatus(firstSegment));
+		details.push(describeResult('First segment', firstSegment));
+	} else {
+		statuses.push('warning');
+		details.push('First segment: not found in the playlist');
+	}
+
+	const durationCheck = checkSegmentDurations(rendition);
+	if (durationCheck) {
+		statuses.push(durationCheck.status);
+		details.push(durationCheck.detail);
+	}
+
+	return { status: worstStatus(statuses), title: rendition.label, details: [...details, ...rendition.details] };
+}
+
+// Renditions with a different target duration than the others have misaligned segments
+function checkRenditionAlignment(renditions: Rendition[]): DiagnosticCheck | null {
+	const getTypicalDuration = (rendition: Rendition) => rendition.targetDuration ?? rendition.segmentDurations[0];
+	const durations = [...new Set(renditions.map(getTypicalDuration).filter((duration): duration is number => !!duration).map((duration) => Math.round(duration * 100) / 100))];
+	if (durations.length <= 1) return null;
+	return {
+		status: 'warning',
+		title: 'Segment Alignment',
+		details: [`Renditions use different segment durations (${durations.map((duration) => `${duration}s`).join(', ')}), switching between them can stall`]
+	};
+}
+
+/**
+ * Run the health check of a stream URL, the format is probed from the response when not given
+ */
+export async function runStreamDiagnostics(url: string, format?: PlayerEngineKind | null): Promise<StreamDiagnosticsReport> {
+	const checks: DiagnosticCheck[] = [];
+	const report: StreamDiagnosticsReport = { url, format: format ?? null, checkedAt: new Date(), checks };
+
+	const manifest = await fetchResource(url, format === 'native');
+	const detectedFormat = format
+		|| getFormatFromContentType(manifest.contentType)
+		|| (manifest.text ? getFormatFromContent(manifest.text) : null)
+		|| guessStreamFormat(url);
+	report.format = detectedFormat;
+
+	const expectedContentTypes = detectedFormat === 'hls' ? HLS_CONTENT_TYPES : detectedFormat === 'dash' ? DASH_CONTENT_TYPES : undefined;
+	const manifestStatus = detectedFormat === 'native' ? getSegmentStatus(manifest) : getResultStatus(manifest, expectedContentTypes);
+	const manifestDetails = [describeResult(detectedFormat === 'native' ? 'File' : 'Manifest', manifest)];
+	if (manifestStatus === 'warning' && expectedContentTypes) {
+		manifestDetails.push(`Expected Content-Type: ${expectedContentTypes[0]}`);
+	}
+	const manifestCheck: DiagnosticCheck = {
+		status: manifestStatus,
+		title: detectedFormat === 'native' ? 'Video File' : `${detectedFormat.toUpperCase()} Manifest`,
+		details: manifestDetails
+	};
+	checks.push(manifestCheck);
+
+	const renditions: Rendition[] = [];
+	if (isOk(manifest) && detectedFormat === 'hls') {
+		if (manifest.text.includes('#EXTINF:')) {
+			// A media playlist without variants
+			const rendition: Rendition = { label: 'Media Playlist', segmentDurations: [], details: [] };
+			parseMediaPlaylist(manifest.text, url, rendition);
+			renditions.push(rendition);
+		} else {
+			renditions.push(...getHlsRenditions(manifest.text, url));
+		}
+	} else if (isOk(manifest) && detectedFormat === 'dash') {
+		try {
+			renditions.push(...getDashRenditions(manifest.text, url));
+		} catch (error) {
+			manifestCheck.status = 'danger';
+			manifestCheck.details.push((error as Error).message);
+		}
+	}
+
+	if (detectedFormat !== 'native' && isOk(manifest)) {
+		manifestCheck.details.push(`${renditions.length} rendition${renditions.length === 1 ? '' : 's'}`);
+		if (renditions.length === 0 && manifestCheck.status !== 'danger') {
+			manifestCheck.status = 'danger';
+			manifestCheck.details.push('No renditions found');
+		}
+	}
+
+	const sampledRenditions = renditions.slice(0, MAX_RENDITIONS);
+	for (const rendition of sampledRenditions) {
+		checks.push(await checkRendition(rendition, detectedFormat === 'hls'));
+	}
+	if (renditions.length > MAX_RENDITIONS) {
+		checks.push({ status: 'info', title: 'Renditions', details: [`Only the first ${MAX_RENDITIONS} of ${renditions.length} renditions were sampled`] });
+	}
+
+	const alignmentCheck = checkRenditionAlignment(sampledRenditions);
+	if (alignmentCheck) checks.push(alignmentCheck);
+
+	checks.push(checkTokenExpiry([url, ...sampledRenditions.flatMap((rendition) => [rendition.playlistUrl, rendition.firstSegmentUrl]).filter((segmentUrl): segmentUrl is string => !!segmentUrl)]));
+
+	return report;
+}
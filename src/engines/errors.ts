@@ -0,0 +1,202 @@
+/**
+ * Playback errors - failures of HLS.js, dash.js and the video element classified into kinds with actionable messages
+ *
+ * HLS.js and dash.js play through MediaSource blob: URLs, which Directus blocks unless media-src allows them (CSP).
+ */
+import { getTokenExpiry, isCrossOrigin } from './diagnostics';
+import type { PlayerEngineKind } from './types';
+
+// notFound = 404/410, token = 401/403 (signed link expired or invalid)
+export type PlaybackErrorKind = 'csp' | 'cors' | 'token' | 'notFound' | 'codec' | 'drm' | 'network' | 'decode';
+
+export interface PlaybackError {
+	kind: PlaybackErrorKind;
+	// Heading of the notice, e.g. "Token Expired"
+	title: string;
+	// What to check or change
+	message: string;
+	// Raw error of HLS.js, dash.js or the video element
+	details: string | null;
+	// HTTP status of the failed request, null if there was no response
+	status: number | null;
+}
+
+interface PlaybackErrorOptions {
+	status?: number | null;
+	// Engine the notice is about (CSP message)
+	engineKind?: PlayerEngineKind;
+	// Token expiry of the signed link has passed
+	expired?: boolean;
+}
+
+const STATUS_TIMEOUT = 5000;
+
+/**
+ * Build the notice shown when CSP blocks playback
+ */
+function getCspErrorMessage(kind?: PlayerEngineKind): string {
+	const format = kind === 'hls' ? 'HLS streaming' : kind === 'dash' ? 'DASH streaming' : 'streaming';
+	return `Content Security Policy (CSP) is blocking ${format}. Please add the following environment variable to your Directus configuration:\n\nCONTENT_SECURITY_POLICY_DIRECTIVES__MEDIA_SRC=array:'self', blob: data:`;
+}
+
+/**
+ * Create a playback error of a kind with its title and message
+ */
+export function createPlaybackError(kind: PlaybackErrorKind, details: string | null = null, options: PlaybackErrorOptions = {}): PlaybackError {
+	const status = options.status ?? null;
+	const httpStatus = status ? ` (HTTP ${status})` : '';
+	let title: string;
+	let message: string;
+
+	switch (kind) {
+		case 'csp':
+			title = 'CSP Configuration Required';
+			message = getCspErrorMessage(options.engineKind);
+			break;
+		case 'cors':
+			title = 'Blocked by CORS';
+			message = `The streaming server doesn't allow requests from ${window.location.origin} – add an Access-Control-Allow-Origin header to the manifest, segment and key responses.`;
+			break;
+		case 'token':
+			title = options.expired ? 'Token Expired' : 'Access Denied';
+			message = options.expired
+				? 'Token expired – check Stream Secret / clock skew between Directus and the streaming server.'
+				: `The streaming server refused the link${httpStatus} – check Stream Secret, Token Algorithm and URL Schema.`;
+			break;
+		case 'notFound':
+			title = 'Stream Not Found';
+			message = `The stream doesn't exist${httpStatus} – check the stream link of the item and Host URL.`;
+			break;
+		case 'codec':
+			title = 'Unsupported Codec';
+			message = "This browser can't play the codecs of the stream (e.g., HEVC or AV1) – add an H.264 rendition or try another browser.";
+			break;
+		case 'drm':
+			title = 'DRM Error';
+			message = 'The license request or key system failed – check the license server URLs, license headers and key systems.';
+			break;
+		case 'network':
+			title = 'Network Error';
+			message = `The stream could not be loaded${httpStatus} – check that the streaming server is reachable.`;
+			break;
+		case 'decode':
+			title = 'Playback Failed';
+			message = 'The video could not be decoded – the manifest or segments may be malformed, try re-encoding the video.';
+			break;
+	}
+
+	return { kind, title, message, details, status };
+}
+
+/**
+ * Log an error the engine recovers from itself (e.g. a subtitle that fails to parse) - playback continues, no notice is shown
+ */
+export function logRecoverableError(engineKind: PlayerEngineKind, details: string) {
+	const engine = engineKind === 'hls' ? 'HLS.js' : engineKind === 'dash' ? 'dash.js' : 'Video element';
+	console.warn(`[PlaybackError] ${engine} recovered from an error:`, details);
+}
+
+/**
+ * Classify a failed request by its HTTP status (0 or null = no response)
+ */
+export function classifyHttpError(status: number | null | undefined, url: string, details: string | null = null): PlaybackError {
+	if (status === 401 || status === 403) {
+		const expiry = getTokenExpiry(url);
+		return createPlaybackError('token', details, { status, expired: !!expiry && expiry.getTime() <= Date.now() });
+	}
+	if (status === 404 || status === 410) {
+		return createPlaybackError('notFound', details, { status });
+	}
+	// Without a response a cross-origin request was most likely blocked (browsers hide the reason from scripts)
+	if (!status && navigator.onLine && isCrossOrigin(url)) {
+		return createPlaybackError('cors', details);
+	}
+	return createPlaybackError('network', details, { status: status || null });
+}
+
+/**
+ * Check if a media element error is a CSP violation
+ *
+ * Only error code 4 (MEDIA_ERR_SRC_NOT_SUPPORTED) with "URL safety check" - the specific message browsers
+ * show when CSP blocks blob URLs. Network errors (code 2, e.g. 404/403) are NOT CSP errors.
+ */
+function isCspMediaError(error: MediaError | null): boolean {
+	return !!error && error.code === MediaError.MEDIA_ERR_SRC_NOT_SUPPORTED && (error.message || '').includes('URL safety check');
+}
+
+/**
+ * Classify an error of the video element, null for aborted loads
+ */
+export function classifyMediaError(error: MediaError, engineKind?: PlayerEngineKind): PlaybackError | null {
+	const details = error.message || `MediaError ${error.code}`;
+	if (isCspMediaError(error)) return createPlaybackError('csp', details, { engineKind });
+
+	switch (error.code) {
+		case MediaError.MEDIA_ERR_ABORTED:
+			return null;
+		case MediaError.MEDIA_ERR_NETWORK:
+			return createPlaybackError('network', details);
+		case MediaError.MEDIA_ERR_DECODE:
+			return createPlaybackError('decode', details);
+		default:
+			return createPlaybackError('codec', details);
+	}
+}
+
+/**
+ * Get the HTTP status of a URL, 0 if the request failed (blocked, offline or timed out)
+ *
+ * The video element doesn't expose the status of its own requests, so a one byte range is requested again.
+ */
+export async function getHttpStatus(url: string): Promise<number> {
+	const controller = new AbortController();
+	const timeout = setTimeout(() => controller.abort(), STATUS_TIMEOUT);
+	try {
+		const response = await fetch(url, { headers: { Range: 'bytes=0-0' }, signal: controller.signal });
+		response.body?.cancel().catch(() => {});
+		return response.status;
+	} catch (error) {
+		return 0;
+	} finally {
+		clearTimeout(timeout);
+	}
+}
+
+/**
+ * Watch a video element for CSP violations, returns a function removing all listeners
+ */
+export function watchCspErrors(videoEl: HTMLVideoElement, engineKind: PlayerEngineKind, onError: (error: PlaybackError) => void): () => void {
+	if (typeof window === 'undefined') {
+		return () => {};
+	}
+
+	// media-src violations of the blob URLs of the media source
+	const onViolation = (event: SecurityPolicyViolationEvent) => {
+		const directive = event.effectiveDirective || event.violatedDirective;
+		if ((directive === 'media-src' || directive === 'default-src') && event.blockedURI?.includes('blob')) {
+			onError(createPlaybackError('csp', `Refused to load ${event.blockedURI} (${directive})`, { engineKind }));
+		}
+	};
+
+	const onVideoError = () => {
+		if (isCspMediaError(videoEl.error)) {
+			onError(createPlaybackError('csp', videoEl.error!.message, { engineKind }));
+		}
+	};
+
+	// Also check if the video fails to load after a delay
+	// This is a fallback for when the error event doesn't fire properly
+	const checkTimeout = setTimeout(onVideoError, 2000);
+	const onLoadedMetadata = () => clearTimeout(checkTimeout);
+
+	window.addEventListener('securitypolicyviolation', onViolation);
+	videoEl.addEventListener('error', onVideoError);
+	videoEl.addEventListener('loadedmetadata', onLoadedMetadata, { once: true });
+
+	return () => {
+		clearTimeout(checkTimeout);
+		window.removeEventListener('securitypolicyviolation', onViolation);
+		videoEl.removeEventListener('error', onVideoError);
+		videoEl.removeEventListener('loadedmetadata', onLoadedMetadata);
+	};
+}
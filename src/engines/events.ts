@@ -0,0 +1,45 @@
+/**
+ * Minimal typed event emitter for player engines
+ */
+import type { PlayerEngineEventHandler, PlayerEngineEvents, SegmentDownload } from './types';
+
+// Segment downloads kept for the statistics overlay
+const MAX_SEGMENT_DOWNLOADS = 20;
+
+/**
+ * Add a segment download to the most recent downloads
+ */
+export function addSegmentDownload(downloads: SegmentDownload[], download: SegmentDownload): SegmentDownload[] {
+	if (!Number.isFinite(download.duration) || download.duration < 0) return downloads;
+	return [download, ...downloads].slice(0, MAX_SEGMENT_DOWNLOADS);
+}
+
+export function createEngineEvents() {
+	const handlers = new Map<keyof PlayerEngineEvents, Set<(payload: any) => void>>();
+
+	const on = <K extends keyof PlayerEngineEvents>(event: K, handler: PlayerEngineEventHandler<K>) => {
+		if (!handlers.has(event)) {
+			handlers.set(event, new Set());
+		}
+		handlers.get(event)!.add(handler);
+		return () => {
+			handlers.get(event)?.delete(handler);
+		};
+	};
+
+	const emit = <K extends keyof PlayerEngineEvents>(event: K, payload: PlayerEngineEvents[K]) => {
+		handlers.get(event)?.forEach((handler) => {
+			try {
+				handler(payload);
+			} catch (error) {
+				console.error(`[PlayerEngine] Error in ${event} handler:`, error);
+			}
+		});
+	};
+
+	const clear = () => {
+		handlers.clear();
+	};
+
+	return { on, emit, clear };
+}
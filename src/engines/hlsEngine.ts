@@ -0,0 +1,342 @@
+/**
+ * HLS.js player engine
+ */
+import Hls, { type ErrorData, type HlsConfig, type LevelDetails } from 'hls.js';
+import { formatQuality, formatQualityLevelLabel, formatTrackLabel, sortQualityLevels, type AudioTrack, type QualityLevel, type SubtitleTrack } from '../utils';
+import { addSegmentDownload, createEngineEvents } from './events';
+import { classifyHttpError, createPlaybackError, watchCspErrors, type PlaybackError } from './errors';
+import { getDrmLicenseUrl, type DrmConfig } from '../shared/drm';
+import { createIFrameThumbnailer, parseIFramePlaylists, type IFrameThumbnailer } from './iframeThumbnails';
+import type { EnginePlaybackStats, PlayerEngine, PlayerEngineOptions, SegmentDownload, ThumbnailTile } from './types';
+
+// Live streams buffer towards the live edge, the small VOD preview buffer would stall them
+const LIVE_MAX_BUFFER_LENGTH = 30;
+// recoverMediaError, then swapAudioCodec and recoverMediaError again
+const MAX_MEDIA_RECOVERIES = 2;
+
+/**
+ * Check if HLS.js can play in this browser (MediaSource Extensions)
+ */
+export function isHlsJsSupported(): boolean {
+	return Hls.isSupported();
+}
+
+/**
+ * HLS.js EME configuration - HLS.js picks the key system from the KEYFORMAT of the playlist in its own order,
+ * the priority only selects which key systems are enabled
+ */
+function getHlsDrmConfig(drm: DrmConfig): Partial<HlsConfig> {
+	const drmSystems: Record<string, { licenseUrl: string }> = {};
+	drm.keySystems.forEach((keySystem) => {
+		const licenseUrl = getDrmLicenseUrl(drm, keySystem);
+		if (licenseUrl) {
+			drmSystems[keySystem] = { licenseUrl };
+		}
+	});
+
+	const headers = Object.entries(drm.headers);
+	return {
+		emeEnabled: true,
+		drmSystems: drmSystems as HlsConfig['drmSystems'],
+		// Request headers can only be set on the opened request
+		licenseXhrSetup: headers.length > 0
+			? (xhr: XMLHttpRequest, licenseUrl: string) => {
+				xhr.open('POST', licenseUrl, true);
+				headers.forEach(([header, value]) => xhr.setRequestHeader(header, value));
+			}
+			: undefined
+	};
+}
+
+export function createHlsEngine(options: PlayerEngineOptions = {}): PlayerEngine {
+	const { tokenRefresh, drm } = options;
+	const events = createEngineEvents();
+
+	let hls: Hls | null = null;
+	let videoEl: HTMLVideoElement | null = null;
+	let url: string | null = null;
+	let currentQuality: string | null = null;
+	let qualityLevels: QualityLevel[] = [];
+	let subtitleTracks: SubtitleTrack[] = [];
+	let audioTracks: AudioTrack[] = [];
+	let live = false;
+	let segmentDownloads: SegmentDownload[] = [];
+	// Lowest bandwidth I-frame playlist, its preview player is created on the first thumbnail request
+	let iframePlaylistUrl: string | null = null;
+	let thumbnailer: IFrameThumbnailer | null = null;
+	const cleanups: Array<() => void> = [];
+
+	// Request handling shared by the player and the I-frame preview player
+	const getRequestConfig = (): Partial<HlsConfig> => ({
+		...tokenRefresh?.getHlsConfig(), // Requests use the latest stream token
+		...(drm ? getHlsDrmConfig(drm) : {})
+	});
+
+	// Live and event playlists stay live until #EXT-X-ENDLIST is added
+	const updateLive = (details: LevelDetails) => {
+		if (!hls || details.live === live) return;
+		live = details.live;
+		if (live) {
+			hls.config.maxBufferLength = LIVE_MAX_BUFFER_LENGTH;
+			hls.config.maxMaxBufferLength = LIVE_MAX_BUFFER_LENGTH * 2;
+		}
+		events.emit('live', live);
+	};
+
+	const updateQuality = () => {
+		if (!hls || !hls.levels || hls.levels.length === 0) return;
+
+		const currentLevelIndex = hls.currentLevel;
+		let level = hls.levels[currentLevelIndex];
+		if (!level) {
+			// If no specific level is selected (auto), use the highest quality level
+			level = [...hls.levels].sort((a, b) => (b.height || 0) - (a.height || 0))[0];
+		}
+		currentQuality = formatQuality(level.height);
+		events.emit('quality', currentQuality);
+	};
+
+	// Publish the rendition ladder for the quality menu
+	const updateQualityLevels = () => {
+		if (!hls) return;
+		qualityLevels = sortQualityLevels((hls.levels || []).map((level, index) => ({
+			index,
+			width: level.width,
+			height: level.height,
+			bitrate: level.bitrate,
+			videoCodec: level.videoCodec,
+			audioCodec: level.audioCodec,
+			label: formatQualityLevelLabel(formatQuality(level.height), level.width, level.height, level.bitrate)
+		})));
+		events.emit('levels', qualityLevels);
+	};
+
+	// Classify a fatal HLS.js error - network errors by the HTTP status of the failed request (manifest, segment or key)
+	const toPlaybackError = (data: ErrorData, streamUrl: string): PlaybackError => {
+		const details = data.error?.message || data.details;
+
+		if (data.type === Hls.ErrorTypes.KEY_SYSTEM_ERROR || data.details === Hls.ErrorDetails.FRAG_DECRYPT_ERROR) {
+			return createPlaybackError('drm', details);
+		}
+		if (data.type === Hls.ErrorTypes.NETWORK_ERROR) {
+			// A blob: URL only fails to load when CSP blocks it
+			if (streamUrl.startsWith('blob:')) return createPlaybackError('csp', details, { engineKind: 'hls' });
+			return classifyHttpError(data.response?.code, data.url || data.frag?.url || streamUrl, details);
+		}
+		if (
+			data.details === Hls.ErrorDetails.MANIFEST_INCOMPATIBLE_CODECS_ERROR ||
+			data.details === Hls.ErrorDetails.BUFFER_ADD_CODEC_ERROR ||
+			data.details === Hls.ErrorDetails.BUFFER_INCOMPATIBLE_CODECS_ERROR
+		) {
+			return createPlaybackError('codec', details);
+		}
+		return createPlaybackError('decode', details);
+	};
+
+	const attach = (element: HTMLVideoElement) => {
+		videoEl = element;
+		cleanups.push(watchCspErrors(element, 'hls', (error) => events.emit('fatalError', error)));
+	};
+
+	const load = (streamUrl: string) => {
+		if (!videoEl) {
+			throw new Error('[HlsEngine] attach() must be called before load()');
+		}
+		const video = videoEl;
+		url = streamUrl;
+
+		const instance = new Hls({
+			enableWorker: true,
+			lowLatencyMode: true,
+			backBufferLength: 90,
+			autoStartLoad: true,
+			maxBufferLength: 3, // Maximum buffer length in seconds (limits preloading)
+			maxMaxBufferLength: 6, // Maximum max buffer length
+			maxBufferSize: 60 * 1000 * 1000, // Maximum buffer size in bytes (60MB)
+			...getRequestConfig()
+		});
+		hls = instance;
+
+		// Media errors are recovered first - recover, then swap the audio codec (e.g., HE-AAC signalled as AAC) and recover again
+		let mediaRecoveries = 0;
+		instance.on(Hls.Events.ERROR, (event, data) => {
+			if (!data.fatal) return;
+			if (data.type === Hls.ErrorTypes.MEDIA_ERROR && mediaRecoveries < MAX_MEDIA_RECOVERIES) {
+				console.warn('[HlsEngine] Recovering from media error:', data.details);
+				if (mediaRecoveries > 0) instance.swapAudioCodec();
+				mediaRecoveries++;
+				instance.recoverMediaError();
+				return;
+			}
+			events.emit('fatalError', toPlaybackError(data, streamUrl));
+		});
+
+		// I-frame playlists of the multivariant playlist provide the seek bar thumbnails
+		instance.on(Hls.Events.MANIFEST_LOADED, (event, data) => {
+			const manifest = data.networkDetails?.responseText;
+			if (typeof manifest !== 'string') return;
+			const [iframePlaylist] = parseIFramePlaylists(manifest, data.url);
+			if (iframePlaylist) {
+				iframePlaylistUrl = iframePlaylist.url;
+				events.emit('thumbnails', undefined);
+			}
+		});
+
+		// Video is ready to play - levels are fully populated shortly after
+		instance.on(Hls.Events.MANIFEST_PARSED, () => {
+			setTimeout(() => {
+				updateQualityLevels();
+				updateQuality();
+			}, 100);
+		});
+
+		instance.on(Hls.Events.LEVEL_SWITCHED, updateQuality);
+
+		// Download times of video and audio segments for the statistics overlay
+		instance.on(Hls.Events.FRAG_LOADED, (event, data) => {
+			if (data.frag.type === 'subtitle') return;
+			const stats = data.frag.stats;
+			segmentDownloads = addSegmentDownload(segmentDownloads, { duration: stats.loading.end - stats.loading.start, bytes: stats.loaded });
+		});
+		instance.on(Hls.Events.LEVEL_LOADED, (event, data) => {
+			updateLive(data.details);
+			updateQuality();
+		});
+
+		// Subtitle tracks of the manifest for the captions menu
+		instance.on(Hls.Events.SUBTITLE_TRACKS_UPDATED, (event, data) => {
+			subtitleTracks = data.subtitleTracks.map((track, index) => ({
+				index,
+				language: track.lang,
+				label: formatTrackLabel(track.name, track.lang, index)
+			}));
+			events.emit('tracks', undefined);
+		});
+		instance.on(Hls.Events.SUBTITLE_TRACK_SWITCH, () => events.emit('tracks', undefined));
+
+		// Alternate audio renditions (EXT-X-MEDIA TYPE=AUDIO) for the audio menu
+		instance.on(Hls.Events.AUDIO_TRACKS_UPDATED, (event, data) => {
+			audioTracks = data.audioTracks.map((track, index) => ({
+				index,
+				language: track.lang,
+				label: formatTrackLabel(track.name, track.lang, index)
+			}));
+			events.emit('tracks', undefined);
+		});
+		instance.on(Hls.Events.AUDIO_TRACK_SWITCHED, () => events.emit('tracks', undefined));
+
+		instance.loadSource(streamUrl);
+		instance.attachMedia(video);
+		tokenRefresh?.startTokenRefresh(streamUrl);
+
+		// Start loading once the user clicks play
+		const onPlay = () => {
+			instance.startLoad();
+			video.removeEventListener('play', onPlay);
+		};
+		video.addEventListener('play', onPlay);
+		cleanups.push(() => video.removeEventListener('play', onPlay));
+	};
+
+	const destroy = () => {
+		cleanups.splice(0).forEach((cleanup) => cleanup());
+		if (hls) {
+			hls.destroy();
+			hls = null;
+			tokenRefresh?.stopTokenRefresh();
+		}
+		thumbnailer?.destroy();
+		thumbnailer = null;
+		iframePlaylistUrl = null;
+		events.clear();
+		videoEl = null;
+		url = null;
+		currentQuality = null;
+		qualityLevels = [];
+		subtitleTracks = [];
+		audioTracks = [];
+		live = false;
+		segmentDownloads = [];
+	};
+
+	const setQuality = (index: number) => {
+		if (!hls) return;
+		// -1 re-enables automatic level selection, any other index pins that rendition
+		hls.currentLevel = index;
+		events.emit('levels', qualityLevels);
+	};
+
+	const setSubtitleTrack = (index: number) => {
+		if (!hls) return;
+		// -1 turns subtitles off
+		hls.subtitleTrack = index;
+		hls.subtitleDisplay = index >= 0;
+		events.emit('tracks', undefined);
+	};
+
+	const setAudioTrack = (index: number) => {
+		if (!hls || index < 0) return;
+		hls.audioTrack = index;
+		events.emit('tracks', undefined);
+	};
+
+	const getThumbnail = (time: number): Promise<ThumbnailTile | null> => {
+		if (!iframePlaylistUrl) return Promise.resolve(null);
+		if (!thumbnailer) {
+			thumbnailer = createIFrameThumbnailer(iframePlaylistUrl, getRequestConfig());
+		}
+		return thumbnailer.getThumbnail(time);
+	};
+
+	const getPlaybackStats = (): EnginePlaybackStats => {
+		const currentLevel = hls?.levels[hls.currentLevel];
+		const bandwidthEstimate = hls?.bandwidthEstimate;
+		return {
+			currentBitrate: currentLevel?.bitrate ?? null,
+			// Rendition the next segments are loaded from
+			targetBitrate: hls?.levels[hls.loadLevel]?.bitrate ?? null,
+			bandwidthEstimate: bandwidthEstimate && Number.isFinite(bandwidthEstimate) ? bandwidthEstimate : null,
+			videoCodec: currentLevel?.videoCodec ?? null,
+			audioCodec: currentLevel?.audioCodec ?? null,
+			segmentDownloads
+		};
+	};
+
+	const seekToLive = () => {
+		if (!hls || !videoEl || !live) return;
+		// Live sync position keeps the target latency, the end of the seekable range is the fallback
+		const seekable = videoEl.seekable;
+		const position = hls.liveSyncPosition ?? (seekable.length > 0 ? seekable.end(seekable.length - 1) : null);
+		if (position !== null) {
+			videoEl.currentTime = position;
+		}
+	};
+
+	return {
+		kind: 'hls',
+		get url() {
+			return url;
+		},
+		attach,
+		load,
+		destroy,
+		getQualityLevels: () => qualityLevels,
+		getSelectedQuality: () => (!hls || hls.autoLevelEnabled ? -1 : hls.currentLevel),
+		getCurrentQuality: () => currentQuality,
+		setQuality,
+		getSubtitleTracks: () => subtitleTracks,
+		getSelectedSubtitleTrack: () => (hls ? hls.subtitleTrack : -1),
+		setSubtitleTrack,
+		getAudioTracks: () => audioTracks,
+		getSelectedAudioTrack: () => (hls && audioTracks.length > 0 ? hls.audioTrack : -1),
+		setAudioTrack,
+		isLive: () => live,
+		getLiveLatency: () => (hls && live ? hls.latency : null),
+		getTargetLatency: () => (hls && live ? hls.targetLatency : null),
+		seekToLive,
+		hasThumbnails: () => !!iframePlaylistUrl,
+		getThumbnail,
+		getPlaybackStats,
+		on: events.on
+	};
+}
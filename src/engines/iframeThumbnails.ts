@@ -0,0 +1,163 @@
+/**
+ * Thumbnails from HLS I-frame playlists (EXT-X-I-FRAME-STREAM-INF)
+ *
+ * HLS.js doesn't parse I-frame playlists, so they are read from the multivariant playlist and played
+ * by a hidden preview player that seeks to the requested position and captures the frame.
+ */
+import Hls, { type HlsConfig } from 'hls.js';
+import type { ThumbnailTile } from './types';
+
+export interface IFramePlaylist {
+	url: string;
+	bandwidth: number;
+	width: number;
+	height: number;
+}
+
+export interface IFrameThumbnailer {
+	getThumbnail: (time: number) => Promise<ThumbnailTile | null>;
+	destroy: () => void;
+}
+
+const IFRAME_STREAM_TAG = '#EXT-X-I-FRAME-STREAM-INF:';
+const THUMBNAIL_WIDTH = 160;
+const SEEK_TIMEOUT = 5000;
+const MAX_CACHED_THUMBNAILS = 200;
+
+/**
+ * Parse an attribute list, e.g. BANDWIDTH=86000,RESOLUTION=640x360,URI="iframes.m3u8"
+ */
+export function parseAttributes(attributeList: string): Record<string, string> {
+	const attributes: Record<string, string> = {};
+	const pattern = /([A-Z0-9-]+)=("[^"]*"|[^,]*)/g;
+	let match: RegExpExecArray | null;
+	while ((match = pattern.exec(attributeList))) {
+		attributes[match[1]] = match[2].replace(/^"|"$/g, '');
+	}
+	return attributes;
+}
+
+/**
+ * Get the I-frame playlists of a multivariant playlist, lowest bandwidth first
+ */
+export function parseIFramePlaylists(manifest: string, manifestUrl: string): IFramePlaylist[] {
+	return manifest
+		.split(/\r?\n/)
+		.filter((line) => line.startsWith(IFRAME_STREAM_TAG))
+		.reduce<IFramePlaylist[]>((playlists, line) => {
+			const attributes = parseAttributes(line.substring(IFRAME_STREAM_TAG.length));
+			if (!attributes.URI) return playlists;
+			const [width, height] = (attributes.RESOLUTION || '').split('x').map(Number);
+			try {
+				playlists.push({
+					url: new URL(attributes.URI, manifestUrl).href,
+					bandwidth: Number(attributes.BANDWIDTH) || 0,
+					width: width || 0,
+					height: height || 0
+				});
+			} catch (error) {
+				// Invalid URI, skip the playlist
+			}
+			return playlists;
+		}, [])
+		.sort((a, b) => a.bandwidth - b.bandwidth);
+}
+
+/**
+ * Create a preview player for an I-frame playlist - requests are serialized, only the latest pending one is captured
+ */
+export function createIFrameThumbnailer(playlistUrl: string, config: Partial<HlsConfig> = {}): IFrameThumbnailer {
+	const video = document.createElement('video');
+	video.muted = true;
+	video.playsInline = true;
+	video.preload = 'auto';
+	const canvas = document.createElement('canvas');
+
+	const hls = new Hls({
+		...config,
+		autoStartLoad: true,
+		maxBufferLength: 1,
+		maxMaxBufferLength: 2
+	});
+	hls.loadSource(playlistUrl);
+	hls.attachMedia(video);
+
+	// Captured frames keyed by second
+	const cache = new Map<number, ThumbnailTile>();
+	let queue: Promise<unknown> = Promise.resolve();
+	let requestId = 0;
+	let destroyed = false;
+
+	const captureFrame = (): ThumbnailTile | null => {
+		if (!video.videoWidth || !video.videoHeight) return null;
+		const width = Math.min(THUMBNAIL_WIDTH, video.videoWidth);
+		const height = Math.round(width * video.videoHeight / video.videoWidth);
+		canvas.width = width;
+		canvas.height = height;
+		const context = canvas.getContext('2d');
+		if (!context) return null;
+		context.drawImage(video, 0, 0, width, height);
+		return { url: canvas.toDataURL('image/jpeg', 0.7), x: 0, y: 0, width, height };
+	};
+
+	const seekAndCapture = (time: number) => new Promise<ThumbnailTile | null>((resolve) => {
+		if (destroyed) {
+			resolve(null);
+			return;
+		}
+
+		const finish = (thumbnail: ThumbnailTile | null) => {
+			clearTimeout(timeout);
+			video.removeEventListener('seeked', onSeeked);
+			resolve(thumbnail);
+		};
+		const onSeeked = () => {
+			try {
+				finish(captureFrame());
+			} catch (error) {
+				// Tainted canvas or a frame that isn't decoded yet
+				finish(null);
+			}
+		};
+		const timeout = setTimeout(() => finish(null), SEEK_TIMEOUT);
+
+		video.addEventListener('seeked', onSeeked);
+		video.currentTime = time;
+	});
+
+	const getThumbnail = (time: number): Promise<ThumbnailTile | null> => {
+		const second = Math.max(0, Math.floor(time));
+		const cached = cache.get(second);
+		if (cached) return Promise.resolve(cached);
+
+		const currentRequestId = ++requestId;
+		const request = queue.then(async () => {
+			// Superseded by a newer position while waiting
+			if (currentRequestId !== requestId) return null;
+			const thumbnail = await seekAndCapture(second);
+			if (thumbnail) {
+				if (cache.size >= MAX_CACHED_THUMBNAILS) {
+					const oldestSecond = cache.keys().next().value;
+					if (oldestSecond !== undefined) cache.delete(oldestSecond);
+				}
+				cache.set(second, thumbnail);
+			}
+			return thumbnail;
+		});
+		queue = request.catch(() => null);
+		return request;
+	};
+
+	const destroy = () => {
+		destroyed = true;
+		cache.clear();
+		hls.destroy();
+		video.removeAttribute('src');
+		video.load();
+	};
+
+	return {
+		getThumbnail,
+		destroy
+	};
+}
@@ -0,0 +1,44 @@
+/**
+ * Player engines - every player surface creates its HLS, DASH or native playback through createPlayerEngine
+ */
+import { createHlsEngine, isHlsJsSupported } from './hlsEngine';
+import { createDashEngine } from './dashEngine';
+import { canPlayNativeHls, createNativeEngine } from './nativeEngine';
+import { guessStreamFormat } from './probe';
+import type { PlayerEngine, PlayerEngineKind, PlayerEngineOptions } from './types';
+
+export type { EnginePlaybackStats, PlayerEngine, PlayerEngineEvents, PlayerEngineKind, PlayerEngineOptions, SegmentDownload, ThumbnailTile } from './types';
+export { classifyHttpError, createPlaybackError, type PlaybackError, type PlaybackErrorKind } from './errors';
+export { guessStreamFormat, probeStreamFormat, resolveStreamFormat, type StreamFormatOption } from './probe';
+export { runStreamDiagnostics, type DiagnosticCheck, type DiagnosticStatus, type StreamDiagnosticsReport } from './diagnostics';
+export { getStreamSummary, parseIsoDuration, type StreamSummary } from './summary';
+
+/**
+ * Check if a URL looks like a DASH stream (typically ends with .mpd) - playback uses the probed format
+ */
+export function isDashStream(url: string): boolean {
+	return !!url && guessStreamFormat(url) === 'dash';
+}
+
+/**
+ * Create the engine for a video element and attach it, null if the browser can't play the format
+ *
+ * HLS falls back to native playback where HLS.js isn't supported but the browser plays HLS itself (Safari).
+ */
+export function createPlayerEngine(kind: PlayerEngineKind, videoEl: HTMLVideoElement, options: PlayerEngineOptions = {}): PlayerEngine | null {
+	let engine: PlayerEngine;
+
+	if (kind === 'dash') {
+		engine = createDashEngine(options);
+	} else if (kind === 'hls' && isHlsJsSupported()) {
+		engine = createHlsEngine(options);
+	} else if (kind === 'native' || canPlayNativeHls(videoEl)) {
+		engine = createNativeEngine();
+	} else {
+		console.warn('HLS not supported in this browser');
+		return null;
+	}
+
+	engine.attach(videoEl);
+	return engine;
+}
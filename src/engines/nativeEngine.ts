@@ -0,0 +1,207 @@
+/**
+ * Native player engine - progressive files (e.g., MP4) and native HLS (Safari) played by the browser itself
+ */
+import { formatQuality, formatTrackLabel, type AudioTrack, type SubtitleTrack } from '../utils';
+import { createEngineEvents } from './events';
+import { classifyHttpError, classifyMediaError, getHttpStatus, watchCspErrors } from './errors';
+import type { PlayerEngine } from './types';
+
+/**
+ * Check if the browser plays HLS without MediaSource Extensions (Safari, iOS)
+ */
+export function canPlayNativeHls(videoEl: HTMLVideoElement): boolean {
+	return !!videoEl.canPlayType('application/vnd.apple.mpegurl');
+}
+
+/**
+ * Create a native engine - the browser's own loader can't rewrite request URLs, so token refresh doesn't apply
+ */
+export function createNativeEngine(): PlayerEngine {
+	const events = createEngineEvents();
+
+	let videoEl: HTMLVideoElement | null = null;
+	let url: string | null = null;
+	let currentQuality: string | null = null;
+	let live = false;
+	const cleanups: Array<() => void> = [];
+
+	// In-manifest text tracks - <track> elements (sidecar subtitles) are managed separately
+	const getManifestTextTracks = (): TextTrack[] => {
+		if (!videoEl) return [];
+		const trackElements = Array.from(videoEl.querySelectorAll('track')).map((trackElement) => trackElement.track);
+		return Array.from(videoEl.textTracks).filter((track) => {
+			return (track.kind === 'subtitles' || track.kind === 'captions') && !trackElements.includes(track);
+		});
+	};
+
+	// Audio tracks are only exposed by Safari
+	const getNativeAudioTracks = (): any[] => {
+		const audioTrackList = (videoEl as any)?.audioTracks;
+		return audioTrackList ? Array.from(audioTrackList) : [];
+	};
+
+	// End of the seekable range - the live edge of native HLS live streams
+	const getLiveEdge = (): number | null => {
+		const seekable = videoEl?.seekable;
+		return seekable && seekable.length > 0 ? seekable.end(seekable.length - 1) : null;
+	};
+
+	// The browser reports live streams with an infinite duration
+	const updateLive = () => {
+		const isLive = videoEl?.duration === Infinity;
+		if (isLive !== live) {
+			live = isLive;
+			events.emit('live', live);
+		}
+	};
+
+	const updateQuality = () => {
+		const quality = formatQuality(videoEl?.videoHeight);
+		if (quality && quality !== currentQuality) {
+			currentQuality = quality;
+			events.emit('quality', quality);
+		}
+	};
+
+	const attach = (element: HTMLVideoElement) => {
+		videoEl = element;
+		cleanups.push(watchCspErrors(element, 'native', (error) => events.emit('fatalError', error)));
+
+		// The browser reports a 403 or 404 like an unsupported format, the HTTP status tells them apart
+		const onError = async () => {
+			const sourceUrl = url;
+			const playbackError = element.error ? classifyMediaError(element.error, 'native') : null;
+			// CSP errors are reported by watchCspErrors
+			if (!sourceUrl || !playbackError || playbackError.kind === 'csp') return;
+
+			if ((playbackError.kind === 'network' || playbackError.kind === 'codec') && !/^(blob|data):/.test(sourceUrl)) {
+				const status = await getHttpStatus(sourceUrl);
+				// Destroyed or another source loaded meanwhile
+				if (url !== sourceUrl) return;
+				// No status (e.g., no CORS headers) says nothing here, the browser's loader doesn't need CORS
+				if (status >= 400) {
+					events.emit('fatalError', classifyHttpError(status, sourceUrl, playbackError.details));
+					return;
+				}
+			}
+			events.emit('fatalError', playbackError);
+		};
+		element.addEventListener('error', onError);
+
+		const onTracksChange = () => events.emit('tracks', undefined);
+		element.addEventListener('loadedmetadata', updateQuality);
+		element.addEventListener('resize', updateQuality);
+		element.addEventListener('durationchange', updateLive);
+		element.textTracks.addEventListener('addtrack', onTracksChange);
+		element.textTracks.addEventListener('change', onTracksChange);
+		const audioTrackList = (element as any).audioTracks;
+		audioTrackList?.addEventListener?.('addtrack', onTracksChange);
+		audioTrackList?.addEventListener?.('change', onTracksChange);
+
+		cleanups.push(() => {
+			element.removeEventListener('error', onError);
+			element.removeEventListener('loadedmetadata', updateQuality);
+			element.removeEventListener('resize', updateQuality);
+			element.removeEventListener('durationchange', updateLive);
+			element.textTracks.removeEventListener('addtrack', onTracksChange);
+			element.textTracks.removeEventListener('change', onTracksChange);
+			audioTrackList?.removeEventListener?.('addtrack', onTracksChange);
+			audioTrackList?.removeEventListener?.('change', onTracksChange);
+		});
+	};
+
+	const load = (sourceUrl: string) => {
+		if (!videoEl) {
+			throw new Error('[NativeEngine] attach() must be called before load()');
+		}
+		url = sourceUrl;
+		videoEl.src = sourceUrl;
+		videoEl.load();
+	};
+
+	const destroy = () => {
+		cleanups.splice(0).forEach((cleanup) => cleanup());
+		events.clear();
+		videoEl = null;
+		url = null;
+		currentQuality = null;
+		live = false;
+	};
+
+	const getSubtitleTracks = (): SubtitleTrack[] => {
+		return getManifestTextTracks().map((track, index) => ({
+			index,
+			language: track.language || undefined,
+			label: formatTrackLabel(track.label, track.language || undefined, index)
+		}));
+	};
+
+	const setSubtitleTrack = (index: number) => {
+		getManifestTextTracks().forEach((track, trackIndex) => {
+			track.mode = trackIndex === index ? 'showing' : 'disabled';
+		});
+	};
+
+	const getAudioTracks = (): AudioTrack[] => {
+		return getNativeAudioTracks().map((track, index) => ({
+			index,
+			language: track.language || undefined,
+			label: formatTrackLabel(track.label, track.language || undefined, index)
+		}));
+	};
+
+	const setAudioTrack = (index: number) => {
+		const tracks = getNativeAudioTracks();
+		if (index < 0 || !tracks[index]) return;
+		tracks.forEach((track, trackIndex) => {
+			track.enabled = trackIndex === index;
+		});
+	};
+
+	return {
+		kind: 'native',
+		get url() {
+			return url;
+		},
+		attach,
+		load,
+		destroy,
+		// The browser picks the rendition itself
+		getQualityLevels: () => [],
+		getSelectedQuality: () => -1,
+		getCurrentQuality: () => currentQuality,
+		setQuality: () => {},
+		getSubtitleTracks,
+		getSelectedSubtitleTrack: () => getManifestTextTracks().findIndex((track) => track.mode === 'showing'),
+		setSubtitleTrack,
+		getAudioTracks,
+		getSelectedAudioTrack: () => getNativeAudioTracks().findIndex((track) => track.enabled),
+		setAudioTrack,
+		isLive: () => live,
+		getLiveLatency: () => {
+			const liveEdge = getLiveEdge();
+			return live && videoEl && liveEdge !== null ? Math.max(0, liveEdge - videoEl.currentTime) : null;
+		},
+		// The browser keeps its own distance to the live edge
+		getTargetLatency: () => null,
+		seekToLive: () => {
+			const liveEdge = getLiveEdge();
+			if (live && videoEl && liveEdge !== null) {
+				videoEl.currentTime = liveEdge;
+			}
+		},
+		// Thumbnails of native playback come from a WebVTT thumbnails track (see useThumbnails)
+		hasThumbnails: () => false,
+		getThumbnail: () => Promise.resolve(null),
+		// The browser doesn't expose its renditions, bandwidth estimate or segment requests
+		getPlaybackStats: () => ({
+			currentBitrate: null,
+			targetBitrate: null,
+			bandwidthEstimate: null,
+			videoCodec: null,
+			audioCodec: null,
+			segmentDownloads: []
+		}),
+		on: events.on
+	};
+}
@@ -0,0 +1,140 @@
+/**
+ * Stream format detection from the Content-Type or the first bytes of a URL
+ *
+ * URL suffixes are unreliable (e.g., Directus /assets/:id playlists have no file extension),
+ * so the engine is picked from what the server actually returns.
+ */
+import type { PlayerEngineKind } from './types';
+
+// Format override of the interface options, "auto" probes the URL
+export type StreamFormatOption = 'auto' | PlayerEngineKind;
+
+// Enough bytes for an XML prolog and comments before the <MPD> element
+const PROBE_BYTES = 1024;
+const PROBE_TIMEOUT = 5000;
+const MAX_CACHED_PROBES = 100;
+
+// Probe results (pending or settled) keyed by URL
+const probeCache = new Map<string, Promise<PlayerEngineKind>>();
+
+/**
+ * Guess the format from the URL alone - DASH manifests and common file extensions, everything else is HLS
+ */
+export function guessStreamFormat(url: string): PlayerEngineKind {
+	const lowerUrl = (url || '').toLowerCase();
+	const path = lowerUrl.split(/[?#]/)[0];
+	if (path.endsWith('.mpd') || lowerUrl.includes('/dash/') || lowerUrl.includes('format=dash')) return 'dash';
+	if (/\.(mp4|m4v|webm|mov|ogv)$/.test(path)) return 'native';
+	return 'hls';
+}
+
+/**
+ * Get the format from a Content-Type header, null if it doesn't tell (e.g., application/octet-stream)
+ */
+export function getFormatFromContentType(contentType: string | null): PlayerEngineKind | null {
+	const mimeType = (contentType || '').split(';')[0].trim().toLowerCase();
+	if (!mimeType) return null;
+	if (mimeType.includes('mpegurl')) return 'hls';
+	if (mimeType === 'application/dash+xml') return 'dash';
+	if (mimeType.startsWith('video/') || mimeType.startsWith('audio/')) return 'native';
+	return null;
+}
+
+/**
+ * Get the format from the first bytes of a response, null if it doesn't tell
+ */
+export function getFormatFromContent(content: string): PlayerEngineKind | null {
+	const text = content.replace(/^\uFEFF/, '').trimStart();
+	if (text.startsWith('#EXTM3U')) return 'hls';
+	if (/<MPD[\s>]/.test(text)) return 'dash';
+	// ISO BMFF (MP4) "ftyp" box, WebM/Matroska EBML header
+	if (text.substring(4, 8) === 'ftyp' || text.startsWith('\u001aE\u00df\u00a3')) return 'native';
+	return null;
+}
+
+/**
+ * Fetch with a timeout, the probe must never hold up playback for long
+ */
+async function fetchWithTimeout(url: string, init: RequestInit): Promise<Response> {
+	const controller = new AbortController();
+	const timeout = setTimeout(() => controller.abort(), PROBE_TIMEOUT);
+	try {
+		return await fetch(url, { ...init, signal: controller.signal });
+	} finally {
+		clearTimeout(timeout);
+	}
+}
+
+/**
+ * Read the first bytes of a response body without downloading the rest (servers may ignore the Range header)
+ */
+async function readFirstBytes(response: Response): Promise<string> {
+	const reader = response.body?.getReader();
+	if (!reader) return '';
+
+	const decoder = new TextDecoder('latin1');
+	let content = '';
+	try {
+		while (content.length < PROBE_BYTES) {
+			const { done, value } = await reader.read();
+			if (done) break;
+			content += decoder.decode(value, { stream: true });
+		}
+	} finally {
+		reader.cancel().catch(() => {});
+	}
+	return content;
+}
+
+async function detectStreamFormat(url: string): Promise<PlayerEngineKind> {
+	// HEAD is the cheapest, but not every server (or signed URL) allows it
+	try {
+		const response = await fetchWithTimeout(url, { method: 'HEAD' });
+		if (response.ok) {
+			const format = getFormatFromContentType(response.headers.get('Content-Type'));
+			if (format) return format;
+		}
+	} catch (error) {
+		// Fall through to the ranged GET
+	}
+
+	try {
+		const response = await fetchWithTimeout(url, { headers: { Range: `bytes=0-${PROBE_BYTES - 1}` } });
+		if (response.ok) {
+			const format = getFormatFromContentType(response.headers.get('Content-Type')) || getFormatFromContent(await readFirstBytes(response));
+			if (format) return format;
+		}
+	} catch (error) {
+		console.warn('[StreamProbe] Could not probe stream format, guessing from the URL:', error);
+	}
+
+	return guessStreamFormat(url);
+}
+
+/**
+ * Detect the format of a stream URL (cached per URL)
+ */
+export function probeStreamFormat(url: string): Promise<PlayerEngineKind> {
+	const cached = probeCache.get(url);
+	if (cached) return cached;
+
+	// Keep the cache bounded - signed URLs change with every token
+	if (probeCache.size >= MAX_CACHED_PROBES) {
+		const oldestUrl = probeCache.keys().next().value;
+		if (oldestUrl !== undefined) probeCache.delete(oldestUrl);
+	}
+
+	const probe = detectStreamFormat(url);
+	probeCache.set(url, probe);
+	return probe;
+}
+
+/**
+ * Resolve the engine for a URL - an explicit format override wins over the probe
+ */
+export function resolveStreamFormat(url: string, override?: StreamFormatOption | null): Promise<PlayerEngineKind> {
+	if (override && override !== 'auto') {
+		return Promise.resolve(override);
+	}
+	return probeStreamFormat(url);
+}
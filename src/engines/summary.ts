@@ -0,0 +1,141 @@
+/**
+ * Stream summary from the manifest alone - duration and the highest rendition without starting a player
+ *
+ * List views show many streams at once, so only the manifest (and for HLS one media playlist) is read.
+ */
+import { parseAttributes } from './iframeThumbnails';
+import { resolveStreamFormat, type StreamFormatOption } from './probe';
+import type { PlayerEngineKind } from './types';
+
+export interface StreamSummary {
+	format: PlayerEngineKind;
+	// Seconds, null for live streams and progressive files (the video element knows those)
+	duration: number | null;
+	maxWidth: number | null;
+	maxHeight: number | null;
+	isLive: boolean;
+}
+
+const SUMMARY_TIMEOUT = 10000;
+const MAX_CACHED_SUMMARIES = 200;
+
+// Summaries (pending or settled) keyed by URL
+const summaryCache = new Map<string, Promise<StreamSummary>>();
+
+async function fetchText(url: string): Promise<string> {
+	const controller = new AbortController();
+	const timeout = setTimeout(() => controller.abort(), SUMMARY_TIMEOUT);
+	try {
+		const response = await fetch(url, { signal: controller.signal });
+		if (!response.ok) {
+			throw new Error(`HTTP ${response.status}`);
+		}
+		return await response.text();
+	} finally {
+		clearTimeout(timeout);
+	}
+}
+
+/**
+ * Parse an ISO 8601 duration of an MPD (e.g., PT1H2M3.5S) into seconds
+ */
+export function parseIsoDuration(value: string | null): number | null {
+	const match = (value || '').match(/^P(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/);
+	if (!match) return null;
+	const [, days, hours, minutes, seconds] = match.map((part) => Number(part) || 0);
+	return days * 86400 + hours * 3600 + minutes * 60 + seconds;
+}
+
+// Sum of the segment durations of a media playlist, null while it's live
+const getPlaylistDuration = (playlist: string): number | null => {
+	if (!playlist.includes('#EXT-X-ENDLIST')) return null;
+	return playlist
+		.split(/\r?\n/)
+		.filter((line) => line.startsWith('#EXTINF:'))
+		.reduce((total, line) => total + (parseFloat(line.substring('#EXTINF:'.length)) || 0), 0);
+};
+
+async function getHlsSummary(manifest: string, url: string): Promise<StreamSummary> {
+	const summary: StreamSummary = { format: 'hls', duration: null, maxWidth: null, maxHeight: null, isLive: false };
+	const lines = manifest.split(/\r?\n/).map((line) => line.trim());
+
+	// A media playlist without variants
+	if (manifest.includes('#EXTINF:')) {
+		summary.duration = getPlaylistDuration(manifest);
+		summary.isLive = summary.duration === null;
+		return summary;
+	}
+
+	let firstVariantUrl: string | null = null;
+	lines.forEach((line, index) => {
+		if (!line.startsWith('#EXT-X-STREAM-INF:')) return;
+		const [width, height] = (parseAttributes(line.substring('#EXT-X-STREAM-INF:'.length)).RESOLUTION || '').split('x').map(Number);
+		if (height && height > (summary.maxHeight ?? 0)) {
+			summary.maxWidth = width || null;
+			summary.maxHeight = height;
+		}
+		const uri = lines.slice(index + 1).find((nextLine) => nextLine && !nextLine.startsWith('#'));
+		if (uri && !firstVariantUrl) firstVariantUrl = new URL(uri, url).href;
+	});
+
+	// Every variant has the same duration, the first one tells
+	if (firstVariantUrl) {
+		summary.duration = getPlaylistDuration(await fetchText(firstVariantUrl));
+		summary.isLive = summary.duration === null;
+	}
+	return summary;
+}
+
+function getDashSummary(manifest: string): StreamSummary {
+	const document = new DOMParser().parseFromString(manifest, 'application/xml');
+	const mpd = document.documentElement;
+	if (!mpd || mpd.localName !== 'MPD') {
+		throw new Error('The manifest is not a valid MPD');
+	}
+
+	const summary: StreamSummary = {
+		format: 'dash',
+		duration: parseIsoDuration(mpd.getAttribute('mediaPresentationDuration')),
+		maxWidth: null,
+		maxHeight: null,
+		isLive: mpd.getAttribute('type') === 'dynamic'
+	};
+
+	Array.from(document.getElementsByTagNameNS('*', 'Representation')).forEach((representation) => {
+		const height = Number(representation.getAttribute('height'));
+		if (height && height > (summary.maxHeight ?? 0)) {
+			summary.maxWidth = Number(representation.getAttribute('width')) || null;
+			summary.maxHeight = height;
+		}
+	});
+	return summary;
+}
+
+async function readStreamSummary(url: string, formatOverride?: StreamFormatOption | null): Promise<StreamSummary> {
+	const format = await resolveStreamFormat(url, formatOverride);
+	if (format === 'native') {
+		return { format, duration: null, maxWidth: null, maxHeight: null, isLive: false };
+	}
+	const manifest = await fetchText(url);
+	return format === 'dash' ? getDashSummary(manifest) : getHlsSummary(manifest, url);
+}
+
+/**
+ * Get the summary of a stream URL (cached per URL), rejects when the manifest can't be read
+ */
+export function getStreamSummary(url: string, formatOverride?: StreamFormatOption | null): Promise<StreamSummary> {
+	const cached = summaryCache.get(url);
+	if (cached) return cached;
+
+	// Keep the cache bounded - signed URLs change with every token
+	if (summaryCache.size >= MAX_CACHED_SUMMARIES) {
+		const oldestUrl = summaryCache.keys().next().value;
+		if (oldestUrl !== undefined) summaryCache.delete(oldestUrl);
+	}
+
+	const summary = readStreamSummary(url, formatOverride);
+	summaryCache.set(url, summary);
+	// A failed read may succeed later (e.g., a fresh token)
+	summary.catch(() => summaryCache.delete(url));
+	return summary;
+}
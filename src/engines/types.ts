@@ -0,0 +1,103 @@
+/**
+ * Player engine abstraction shared by every player surface (interface player and file preview replacement)
+ */
+import type { AudioTrack, QualityLevel, SubtitleTrack } from '../utils';
+import type { TokenRefresh } from '../composables/useTokenRefresh';
+import type { DrmConfig } from '../shared/drm';
+import type { PlaybackError } from './errors';
+
+// hls = HLS.js, dash = dash.js, native = the browser itself (progressive files and Safari's native HLS)
+export type PlayerEngineKind = 'hls' | 'dash' | 'native';
+
+export interface PlayerEngineOptions {
+	// Keeps stream tokens fresh during playback (see useTokenRefresh)
+	tokenRefresh?: TokenRefresh;
+	// License servers and key systems of encrypted streams (HLS.js and dash.js only)
+	drm?: DrmConfig | null;
+}
+
+// Preview image of a position, a tile of a sprite image (x/y/width/height in image pixels)
+export interface ThumbnailTile {
+	url: string;
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+}
+
+// Download of a media segment
+export interface SegmentDownload {
+	// Milliseconds from the request to the last byte
+	duration: number;
+	bytes: number;
+}
+
+// ABR state for the statistics overlay, null where the engine can't tell (e.g., bitrates of progressive files)
+export interface EnginePlaybackStats {
+	// Bits per second of the rendition playing and the rendition ABR loads next
+	currentBitrate: number | null;
+	targetBitrate: number | null;
+	bandwidthEstimate: number | null;
+	videoCodec: string | null;
+	audioCodec: string | null;
+	// Most recent first
+	segmentDownloads: SegmentDownload[];
+}
+
+export interface PlayerEngineEvents {
+	// Renditions or the pinned rendition changed
+	levels: QualityLevel[];
+	// Rendition currently playing (e.g., "1080p")
+	quality: string | null;
+	// Subtitle or audio tracks, or their selection, changed
+	tracks: void;
+	// Live (or event) stream detected, false once the stream ended (e.g., #EXT-X-ENDLIST)
+	live: boolean;
+	// Thumbnails of the stream became available (I-frame playlists, DASH image adaptation sets)
+	thumbnails: void;
+	// Playback can't recover, e.g. the manifest failed to load or CSP blocks the blob: URLs of the media source
+	fatalError: PlaybackError;
+}
+
+export type PlayerEngineEventHandler<K extends keyof PlayerEngineEvents> = (payload: PlayerEngineEvents[K]) => void;
+
+export interface PlayerEngine {
+	readonly kind: PlayerEngineKind;
+	// Loaded source URL, null before load
+	readonly url: string | null;
+	attach: (videoEl: HTMLVideoElement) => void;
+	load: (url: string) => void;
+	destroy: () => void;
+
+	getQualityLevels: () => QualityLevel[];
+	// Pinned rendition (-1 = automatic ABR)
+	getSelectedQuality: () => number;
+	getCurrentQuality: () => string | null;
+	setQuality: (index: number) => void;
+
+	getSubtitleTracks: () => SubtitleTrack[];
+	// Active text track (-1 = off)
+	getSelectedSubtitleTrack: () => number;
+	setSubtitleTrack: (index: number) => void;
+
+	getAudioTracks: () => AudioTrack[];
+	getSelectedAudioTrack: () => number;
+	setAudioTrack: (index: number) => void;
+
+	isLive: () => boolean;
+	// Seconds behind the live edge, null when not live or unknown
+	getLiveLatency: () => number | null;
+	// Latency the player keeps when playing live (e.g., 3 segments for HLS), null if it has none
+	getTargetLatency: () => number | null;
+	// Jump to the live edge, seeking back within the DVR window uses the video element
+	seekToLive: () => void;
+
+	hasThumbnails: () => boolean;
+	// Preview of a position in seconds, null if the stream has none
+	getThumbnail: (time: number) => Promise<ThumbnailTile | null>;
+
+	getPlaybackStats: () => EnginePlaybackStats;
+
+	// Returns a function removing the handler
+	on: <K extends keyof PlayerEngineEvents>(event: K, handler: PlayerEngineEventHandler<K>) => () => void;
+}
@@ -1,5 +1,45 @@
+import { defineComponent, h, type Component } from 'vue';
 import { defineInterface } from '@directus/extensions-sdk';
-import InterfaceComponent from './interface.vue';
+import VideoPlayerInterface from './interface.vue';
+import PlaylistInterface from './playlist.vue';
+import { DEFAULT_TOKEN_ALGORITHM, getTokenAlgorithm, getTokenAlgorithms, type TokenAlgorithmInput } from './shared/tokenAlgorithms';
+import { getStreamProviders } from './shared/providers';
+import { DRM_KEY_SYSTEMS } from './shared/drm';
+import { VIDEO_METADATA_PROPERTIES } from './shared/videoMetadata';
+
+// Ids of the token algorithms using an input, to show the input only for those
+const tokenAlgorithmsUsing = (input: TokenAlgorithmInput) => {
+	return getTokenAlgorithms().filter((algorithm) => algorithm.inputs.includes(input)).map((algorithm) => algorithm.id);
+};
+
+// Ids of the providers whose token algorithm uses an input
+const providersUsing = (input: TokenAlgorithmInput) => {
+	return getStreamProviders()
+		.filter((provider) => provider.tokenAlgorithm && getTokenAlgorithm(provider.tokenAlgorithm).inputs.includes(input))
+		.map((provider) => provider.id);
+};
+
+// Hide a token input unless the token algorithm uses it - the provider's own algorithm when a provider is selected
+const tokenInputHiddenRule = (input: TokenAlgorithmInput) => ({
+	_or: [
+		{ _and: [{ provider: { _null: true } }, { token_algorithm: { _nin: tokenAlgorithmsUsing(input) } }] },
+		{ _and: [{ provider: { _nnull: true } }, { provider: { _nin: providersUsing(input) } }] }
+	]
+});
+
+// Relational lists (files, M2M, O2M) and CSV/JSON arrays are played as a playlist
+const PLAYLIST_TYPES = ['alias', 'csv', 'json'];
+
+const InterfaceComponent = defineComponent({
+	inheritAttrs: false,
+	setup(_props, { attrs }) {
+		return () => {
+			// Attrs are passed on as they are, the interface rendered declares its props
+			const component: Component = PLAYLIST_TYPES.includes(attrs.type as string) ? PlaylistInterface : VideoPlayerInterface;
+			return h(component, attrs);
+		};
+	}
+});
 
 export default defineInterface({
 	id: 'interface-video-player',
@@ -7,14 +47,17 @@ export default defineInterface({
 	icon: 'play_circle',
 	description: 'Play HLS and MPEG-DASH adaptive video streams and standard video files (mp4, etc.) with this enhanced video player interface',
 	component: InterfaceComponent,
-	types: ['uuid', 'string'],
-	localTypes: ['file', 'standard'],
+	types: ['uuid', 'string', 'alias', 'csv', 'json'],
+	localTypes: ['file', 'standard', 'files', 'm2m', 'o2m'],
 	group: 'relational',
 	relational: true,
 	options: ({ relations, field }) => {
+		// Playlist fields share the streaming options of file fields
+		const isPlaylistField = PLAYLIST_TYPES.includes(field?.type as string);
+
 		// If relations exists, it's a file field - show file field options
 		// If relations doesn't exist, it's a string field - show input interface options + video player options
-		if (!relations || !relations.m2o) {
+		if ((!relations || !relations.m2o) && !isPlaylistField) {
 			// Numeric types (for future support)
 			const APP_NUMERIC_TYPES = ['bigInteger', 'integer', 'float', 'decimal'];
 			const isNumeric = field?.type && APP_NUMERIC_TYPES.includes(field.type);
@@ -185,6 +228,26 @@ export default defineInterface({
 			];
 			
 			// Video player specific options
+			const providerOption = {
+				field: 'provider',
+				name: 'Provider',
+				type: 'string' as const,
+				meta: {
+					width: 'full' as const,
+					interface: 'select-dropdown',
+					group: 'streaming_config',
+					options: {
+						choices: getStreamProviders().map((provider) => ({ text: provider.name, value: provider.id })),
+						allowNone: true,
+						placeholder: 'None (Host URL and URL Schema)'
+					},
+					note: 'Resolve the video IDs stored in the items (e.g., Cloudflare Stream UID, Mux playback ID) into the manifest and thumbnail URLs of the provider. Host URL: Cloudflare customer subdomain (https://customer-<code>.cloudflarestream.com) or Bunny Stream pull zone (https://vz-<id>.b-cdn.net). Signed playback: Bunny token authentication key as Stream Secret; Mux or Cloudflare signing key (base64 encoded private key, with its Key ID) and the Vimeo OTT API key only in the environment (STREAMING_VIDEO_PLAYER_SECRET_<PROVIDER|ALGORITHM>)'
+				},
+				schema: {
+					default_value: null
+				}
+			};
+
 			const hostUrlOption = {
 				field: 'host_url',
 				name: 'Host URL',
@@ -211,25 +274,43 @@ export default defineInterface({
 					options: {
 						placeholder: '{{host_url}}{{item_field}}'
 					},
-					note: 'Optional: URL template with mustache syntax placeholders: {{host_url}}, {{token}}, {{expires}}, {{item_field}}. Example: {{host_url}}/{{token}}/{{expires}}{{item_field}}',
+					note: 'Optional: URL template with mustache syntax placeholders: {{host_url}}, {{item_field}} and the placeholders of the Token Algorithm (nginx: {{token}}, {{expires}}). Example: {{host_url}}/{{token}}/{{expires}}{{item_field}}',
 					conditions: [
 						{
-							name: 'Hide when stream_secret is empty',
+							name: 'Hide when no stream secret and server signing is disabled',
 							rule: {
-								_or: [
+								_and: [
 									{
-										stream_secret: {
-											_eq: null
-										}
+										_or: [
+											{
+												stream_secret: {
+													_eq: null
+												}
+											},
+											{
+												stream_secret: {
+													_eq: ''
+												}
+											}
+										]
 									},
 									{
-										stream_secret: {
-											_eq: ''
+										sign_on_server: {
+											_neq: true
 										}
 									}
 								]
 							},
 							hidden: true
+						},
+						{
+							name: 'Hide when a provider preset is selected',
+							rule: {
+								provider: {
+									_nnull: true
+								}
+							},
+							hidden: true
 						}
 					]
 				}
@@ -247,7 +328,25 @@ export default defineInterface({
 						placeholder: 'Enter stream secret for HLS token generation',
 						secret: true
 					},
-					note: 'Secret key used for generating secure link tokens (MD5 hash)'
+					note: 'Secret key used for generating secure link tokens (the key of the selected Token Algorithm, e.g. nginx secure_link secret or Akamai hex key). Private keys (CloudFront, Mux, Cloudflare) are only read from the environment: STREAMING_VIDEO_PLAYER_SECRET_<COLLECTION>_<FIELD>, STREAMING_VIDEO_PLAYER_SECRET_<ALGORITHM> or STREAMING_VIDEO_PLAYER_SECRET'
+				}
+			};
+
+			const signOnServerOption = {
+				field: 'sign_on_server',
+				name: 'Sign on Server',
+				type: 'boolean' as const,
+				meta: {
+					width: 'full' as const,
+					interface: 'boolean',
+					group: 'streaming_config',
+					options: {
+						label: 'Sign stream links on the server'
+					},
+					note: 'Generate tokens in the bundled endpoint instead of the browser. Set STREAMING_VIDEO_PLAYER_SECRET in the Directus environment and leave Stream Secret empty to keep the secret out of the field configuration.'
+				},
+				schema: {
+					default_value: false
 				}
 			};
 
@@ -259,24 +358,32 @@ export default defineInterface({
 					width: 'full' as const,
 					interface: 'boolean',
 					group: 'streaming_config',
-					readonly: true,
 					options: {
 						label: 'Include client IP'
 					},
-					note: '(NOT AVAILABLE YET) Include client IP address into secure token generation for client unique stream link protection',
+					note: 'Include the client IP address (as seen by Directus) into secure token generation for client unique stream links. Tokens are always signed on the server when enabled.',
 					conditions: [
 						{
-							name: 'Hide when stream_secret is empty',
+							name: 'Hide when no stream secret and server signing is disabled',
 							rule: {
-								_or: [
+								_and: [
 									{
-										stream_secret: {
-											_eq: null
-										}
+										_or: [
+											{
+												stream_secret: {
+													_eq: null
+												}
+											},
+											{
+												stream_secret: {
+													_eq: ''
+												}
+											}
+										]
 									},
 									{
-										stream_secret: {
-											_eq: ''
+										sign_on_server: {
+											_neq: true
 										}
 									}
 								]
@@ -290,6 +397,184 @@ export default defineInterface({
 				}
 			};
 
+			const ipv6HandlingOption = {
+				field: 'ipv6_handling',
+				name: 'IPv6 Handling',
+				type: 'string' as const,
+				meta: {
+					width: 'full' as const,
+					interface: 'select-dropdown',
+					group: 'streaming_config',
+					options: {
+						choices: [
+							{ text: 'Convert IPv4-mapped addresses to IPv4', value: 'unmap' },
+							{ text: 'Use the address as reported', value: 'as_is' },
+							{ text: 'Use the IPv6 /64 network prefix', value: 'prefix_64' }
+						]
+					},
+					note: 'How the client IP is written into the token. IPv4-mapped addresses (::ffff:1.2.3.4) match nginx $remote_addr for IPv4 clients. The /64 prefix keeps tokens valid across IPv6 privacy address changes.',
+					conditions: [
+						{
+							name: 'Hide when include_ip is disabled',
+							rule: {
+								include_ip: {
+									_neq: true
+								}
+							},
+							hidden: true
+						}
+					]
+				},
+				schema: {
+					default_value: 'unmap'
+				}
+			};
+
+			const tokenAlgorithmOption = {
+				field: 'token_algorithm',
+				name: 'Token Algorithm',
+				type: 'string' as const,
+				meta: {
+					width: 'full' as const,
+					interface: 'select-dropdown',
+					group: 'streaming_config',
+					options: {
+						choices: getTokenAlgorithms().map((algorithm) => ({ text: algorithm.name, value: algorithm.id }))
+					},
+					note: `Token scheme of your streaming server or CDN. URL Schema placeholders: ${getTokenAlgorithms().map((algorithm) => `${algorithm.name}: ${algorithm.placeholders.map((placeholder) => `{{${placeholder}}}`).join(', ')}`).join('; ')}`,
+					conditions: [
+						{
+							name: 'Hide when no stream secret and server signing is disabled',
+							rule: {
+								_and: [
+									{
+										_or: [
+											{
+												stream_secret: {
+													_eq: null
+												}
+											},
+											{
+												stream_secret: {
+													_eq: ''
+												}
+											}
+										]
+									},
+									{
+										sign_on_server: {
+											_neq: true
+										}
+									}
+								]
+							},
+							hidden: true
+						},
+						{
+							name: 'Hide when a provider preset is selected',
+							rule: {
+								provider: {
+									_nnull: true
+								}
+							},
+							hidden: true
+						}
+					]
+				},
+				schema: {
+					default_value: DEFAULT_TOKEN_ALGORITHM
+				}
+			};
+
+			const tokenKeyIdOption = {
+				field: 'token_key_id',
+				name: 'Key ID',
+				type: 'string' as const,
+				meta: {
+					width: 'half' as const,
+					interface: 'input',
+					group: 'streaming_config',
+					options: {
+						placeholder: 'K2JCJMDEHXQW5F'
+					},
+					note: 'Key (pair) ID of the signing key, e.g. the CloudFront public key ID or the Mux / Cloudflare signing key ID',
+					conditions: [
+						{
+							name: 'Hide when the token algorithm has no key ID',
+							rule: tokenInputHiddenRule('key_id'),
+							hidden: true
+						}
+					]
+				}
+			};
+
+			const tokenAclOption = {
+				field: 'token_acl',
+				name: 'ACL Path',
+				type: 'string' as const,
+				meta: {
+					width: 'half' as const,
+					interface: 'input',
+					group: 'streaming_config',
+					options: {
+						placeholder: '/videos/*'
+					},
+					note: 'Path the token grants access to, so one token also covers the segments of a stream. Leave empty to sign the stream URL only.',
+					conditions: [
+						{
+							name: 'Hide when the token algorithm has no ACL path',
+							rule: tokenInputHiddenRule('acl'),
+							hidden: true
+						}
+					]
+				}
+			};
+
+			const tokenStartOffsetOption = {
+				field: 'token_start_offset',
+				name: 'Start Time Offset (seconds)',
+				type: 'integer' as const,
+				meta: {
+					width: 'half' as const,
+					interface: 'input',
+					group: 'streaming_config',
+					options: {
+						placeholder: '30',
+						min: 0
+					},
+					note: 'Add a start time (now minus the offset) to the token. Leave empty for tokens without a start time.',
+					conditions: [
+						{
+							name: 'Hide when the token algorithm has no start time',
+							rule: tokenInputHiddenRule('start_offset'),
+							hidden: true
+						}
+					]
+				}
+			};
+
+			const tokenNameOption = {
+				field: 'token_name',
+				name: 'Token Name',
+				type: 'string' as const,
+				meta: {
+					width: 'half' as const,
+					interface: 'input',
+					group: 'streaming_config',
+					options: {
+						placeholder: 'hdnts'
+					},
+					note: 'Query parameter name (Akamai, default: hdnts) or parameter prefix (Wowza, default: wowzatoken)',
+					conditions: [
+						{
+							name: 'Hide when the token algorithm has no token name',
+							rule: tokenInputHiddenRule('token_name'),
+							hidden: true
+						}
+					]
+				}
+			};
+
 			const expiresInMinutesOption = {
 				field: 'expires_in_minutes',
 				name: 'Token Expiration (minutes)',
@@ -305,17 +590,26 @@ export default defineInterface({
 					note: 'Token expiration time in minutes (default: 60)',
 					conditions: [
 						{
-							name: 'Hide when stream_secret is empty',
+							name: 'Hide when no stream secret and server signing is disabled',
 							rule: {
-								_or: [
+								_and: [
 									{
-										stream_secret: {
-											_eq: null
-										}
+										_or: [
+											{
+												stream_secret: {
+													_eq: null
+												}
+											},
+											{
+												stream_secret: {
+													_eq: ''
+												}
+											}
+										]
 									},
 									{
-										stream_secret: {
-											_eq: ''
+										sign_on_server: {
+											_neq: true
 										}
 									}
 								]
@@ -329,6 +623,185 @@ export default defineInterface({
 				}
 			};
 
+			const streamFormatOption = {
+				field: 'stream_format',
+				name: 'Stream Format',
+				type: 'string' as const,
+				meta: {
+					width: 'full' as const,
+					interface: 'select-dropdown',
+					group: 'streaming_config',
+					options: {
+						choices: [
+							{ text: 'Detect automatically', value: 'auto' },
+							{ text: 'HLS', value: 'hls' },
+							{ text: 'MPEG-DASH', value: 'dash' },
+							{ text: 'Progressive file (MP4, WebM)', value: 'native' }
+						]
+					},
+					note: 'Detected from the Content-Type or the first bytes of the stream URL (e.g. /assets/:id playlists without file extension). Set explicitly when the server doesn\'t allow the probe request.'
+				},
+				schema: {
+					default_value: 'auto'
+				}
+			};
+
+			const enableFallbackOption = {
+				field: 'enable_fallback',
+				name: 'Fallback on Errors',
+				type: 'boolean' as const,
+				meta: {
+					width: 'full' as const,
+					interface: 'boolean',
+					group: 'streaming_config',
+					options: {
+						label: 'Fall back to the next source when playback fails'
+					},
+					note: 'Media errors are recovered first. A stream that still fails falls back to the fallback stream link and then to the source file (/assets/:id), a banner shows which source is playing. Off keeps the error of the stream.'
+				},
+				schema: {
+					default_value: true
+				}
+			};
+
+			const drmConfigGroup = {
+				field: 'drm_config',
+				name: 'DRM',
+				type: 'alias' as const,
+				meta: {
+					field: 'drm_config',
+					width: 'full' as const,
+					interface: 'group-detail',
+					special: ['alias', 'no-data', 'group'],
+					options: {
+						start: 'collapsed'
+					}
+				}
+			};
+
+			const drmLicenseUrlOption = {
+				field: 'drm_license_url',
+				name: 'License Server URL',
+				type: 'string' as const,
+				meta: {
+					width: 'full' as const,
+					interface: 'input',
+					group: 'drm_config',
+					options: {
+						placeholder: 'https://license.example.com/widevine'
+					},
+					note: 'License server of encrypted streams (Widevine, PlayReady, ClearKey without keys below)'
+				}
+			};
+
+			const drmLicenseHeadersOption = {
+				field: 'drm_license_headers',
+				name: 'License Request Headers',
+				type: 'json' as const,
+				meta: {
+					width: 'full' as const,
+					interface: 'list',
+					group: 'drm_config',
+					options: {
+						template: '{{ header }}',
+						addLabel: 'Add Header',
+						fields: [
+							{
+								field: 'header',
+								name: 'Header',
+								type: 'string',
+								meta: {
+									field: 'header',
+									width: 'half',
+									interface: 'input',
+									options: {
+										placeholder: 'Authorization'
+									}
+								}
+							},
+							{
+								field: 'value',
+								name: 'Value',
+								type: 'string',
+								meta: {
+									field: 'value',
+									width: 'half',
+									interface: 'input'
+								}
+							}
+						]
+					},
+					note: 'Optional: Headers sent with every license request (e.g. a token of your DRM provider)'
+				}
+			};
+
+			const drmClearKeysOption = {
+				field: 'drm_clearkeys',
+				name: 'ClearKey Keys',
+				type: 'json' as const,
+				meta: {
+					width: 'full' as const,
+					interface: 'list',
+					group: 'drm_config',
+					options: {
+						template: '{{ kid }}',
+						addLabel: 'Add Key',
+						fields: [
+							{
+								field: 'kid',
+								name: 'Key ID',
+								type: 'string',
+								meta: {
+									field: 'kid',
+									width: 'half',
+									interface: 'input',
+									options: {
+										placeholder: '32 hex characters',
+										font: 'monospace'
+									}
+								}
+							},
+							{
+								field: 'key',
+								name: 'Key',
+								type: 'string',
+								meta: {
+									field: 'key',
+									width: 'half',
+									interface: 'input',
+									options: {
+										placeholder: '32 hex characters',
+										font: 'monospace',
+										masked: true
+									}
+								}
+							}
+						]
+					},
+					note: 'Optional: Key IDs and keys (hex) for testing ClearKey encrypted streams. Served by the license stub of the video-player endpoint to users who can read this field - don\'t use production keys.'
+				}
+			};
+
+			const drmKeySystemsOption = {
+				field: 'drm_key_systems',
+				name: 'Key System Priority',
+				type: 'json' as const,
+				meta: {
+					width: 'full' as const,
+					interface: 'tags',
+					group: 'drm_config',
+					options: {
+						presets: DRM_KEY_SYSTEMS.map((keySystem) => keySystem.id),
+						allowCustom: false,
+						alphabetize: false
+					},
+					note: 'Key systems to use, highest priority first (default: Widevine, PlayReady, ClearKey). HLS.js only uses the priority to enable key systems.'
+				},
+				schema: {
+					default_value: DRM_KEY_SYSTEMS.map((keySystem) => keySystem.id)
+				}
+			};
+
 			// Info notice at the top
 			const infoNotice = {
 				field: 'info-notice',
@@ -357,167 +830,818 @@ export default defineInterface({
 					options: {
 						placeholder: 'image'
 					},
-					note: 'Optional: Name of the local field that contains the poster image. It must be a file (UUID) or string field (full URL).'
+					note: 'Optional: Name of the local field that contains the poster image. It must be a file (UUID) or string field (full URL). Editors can set it to the current video frame with "Set as Poster".'
 				},
 				schema: {
 					default_value: ''
 				}
 			};
-			
-			// Return all options for string fields (video player options first)
-			return [
-				infoNotice,
-				posterImageFieldNameOption,
-				hostUrlOption,
-				streamingConfigGroup,
-				streamSecretOption,
-				urlSchemaOption,
-				expiresInMinutesOption,
-				includeIpOption,
-				fieldOptionsGroup,
-				...fieldOptions
-			];
-		}
-
-		const collection = relations.m2o?.related_collection;
 
-		const hostUrlOption = {
-			field: 'host_url',
-			name: 'Host URL',
-			type: 'string' as const,
-			meta: {
-				width: 'full' as const,
-				interface: 'input',
-				group: 'streaming_config',
-				options: {
-					placeholder: typeof window !== 'undefined' ? window.location.origin : ''
+			const posterFormatOption = {
+				field: 'poster_format',
+				name: 'Poster Format',
+				type: 'string' as const,
+				meta: {
+					width: 'full' as const,
+					interface: 'select-dropdown',
+					options: {
+						choices: [
+							{ text: 'JPEG', value: 'image/jpeg' },
+							{ text: 'WebP', value: 'image/webp' }
+						]
+					},
+					note: 'Image format of posters captured with "Set as Poster". The file is uploaded to the configured folder and its id is written to the poster image field.'
 				},
-				note: `Host domain (e.g., https://example.com). Default: ${typeof window !== 'undefined' ? window.location.origin : ''}. Leave empty when working with fully qualified URLs in collection.`
+				schema: {
+					default_value: 'image/jpeg'
+				}
+			};
+
+			const subtitlesFieldNameOption = {
+				field: 'subtitles_field_name',
+				name: 'Subtitles Field Name',
+				type: 'string' as const,
+				meta: {
+					width: 'full' as const,
+					interface: 'input',
+					options: {
+						placeholder: 'subtitles'
+					},
+					note: 'Optional: Name of the local field that contains subtitle files (WebVTT or SRT). It must be a file or files (M2M) field. The language is read from the file name, e.g. captions.en.vtt.'
+				},
+				schema: {
+					default_value: ''
+				}
+			};
+
+			const thumbnailsFieldNameOption = {
+				field: 'thumbnails_field_name',
+				name: 'Thumbnails Field Name',
+				type: 'string' as const,
+				meta: {
+					width: 'full' as const,
+					interface: 'input',
+					options: {
+						placeholder: 'thumbnails'
+					},
+					note: 'Optional: Name of the local field that contains a WebVTT thumbnails track (sprite images with #xywh=) for the seek bar previews. It must be a file (UUID) or string field (full URL). I-frame playlists and DASH thumbnail tiles of the stream are preferred.'
+				},
+				schema: {
+					default_value: ''
+				}
+			};
+
+			const chaptersFieldNameOption = {
+				field: 'chapters_field_name',
+				name: 'Chapters Field Name',
+				type: 'string' as const,
+				meta: {
+					width: 'full' as const,
+					interface: 'input',
+					options: {
+						placeholder: 'chapters'
+					},
+					note: 'Optional: Name of the local JSON field that stores chapters and cue points, e.g. [{ "start": 0, "title": "Intro" }]. Chapters are shown on the seek bar and can be edited, imported and exported as WebVTT below the player.'
+				},
+				schema: {
+					default_value: ''
+				}
+			};
+
+			const fallbackStreamFieldNameOption = {
+				field: 'fallback_stream_field_name',
+				name: 'Fallback Stream Field Name',
+				type: 'string' as const,
+				meta: {
+					width: 'full' as const,
+					interface: 'input',
+					options: {
+						placeholder: 'hls_link'
+					},
+					note: 'Optional: Name of the local field with a second stream link (e.g. the HLS link of a DASH stream), played when the stream link fails'
+				},
+				schema: {
+					default_value: ''
+				}
+			};
+
+			const clipStartFieldNameOption = {
+				field: 'clip_start_field_name',
+				name: 'Clip Start Field Name',
+				type: 'string' as const,
+				meta: {
+					width: 'half' as const,
+					interface: 'input',
+					options: {
+						placeholder: 'clip_start'
+					},
+					note: 'Optional: Name of the local numeric field that stores the clip in point in seconds. Use a decimal or float field for millisecond precision.'
+				},
+				schema: {
+					default_value: ''
+				}
+			};
+
+			const clipEndFieldNameOption = {
+				field: 'clip_end_field_name',
+				name: 'Clip End Field Name',
+				type: 'string' as const,
+				meta: {
+					width: 'half' as const,
+					interface: 'input',
+					options: {
+						placeholder: 'clip_end'
+					},
+					note: 'Optional: Name of the local numeric field that stores the clip out point in seconds. Playback is constrained to the clip.'
+				},
+				schema: {
+					default_value: ''
+				}
+			};
+
+			const metadataFieldsOption = {
+				field: 'metadata_fields',
+				name: 'Metadata Fields',
+				type: 'json' as const,
+				meta: {
+					width: 'full' as const,
+					interface: 'list',
+					options: {
+						template: '{{ property }} \u2192 {{ field }}',
+						addLabel: 'Add Field',
+						fields: [
+							{
+								field: 'property',
+								name: 'Property',
+								type: 'string',
+								meta: {
+									field: 'property',
+									width: 'half',
+									interface: 'select-dropdown',
+									options: {
+										choices: VIDEO_METADATA_PROPERTIES.map((property) => ({ text: property.name, value: property.id }))
+									}
+								}
+							},
+							{
+								field: 'field',
+								name: 'Item Field',
+								type: 'string',
+								meta: {
+									field: 'field',
+									width: 'half',
+									interface: 'input',
+									options: {
+										placeholder: 'video_duration'
+									}
+								}
+							}
+						]
+					},
+					note: 'Optional: Write properties of the loaded stream (duration, resolution, codecs, rendition ladder, languages) to fields of the item. The values are saved with the item.'
+				}
+			};
+
+			const preferredAudioLanguageOption = {
+				field: 'preferred_audio_language',
+				name: 'Preferred Audio Language',
+				type: 'string' as const,
+				meta: {
+					width: 'full' as const,
+					interface: 'select-dropdown',
+					options: {
+						choices: [
+							{ text: 'Language of the Directus user', value: 'user' },
+							{ text: 'Default track of the stream', value: 'default' }
+						],
+						allowOther: true
+					},
+					note: 'Audio track played by default for streams with multiple audio tracks. Enter a language code (e.g. de, en-US) to always prefer that language.'
+				},
+				schema: {
+					default_value: 'user'
+				}
+			};
+			
+			// Return all options for string fields (video player options first)
+			return [
+				infoNotice,
+				posterImageFieldNameOption,
+				posterFormatOption,
+				subtitlesFieldNameOption,
+				thumbnailsFieldNameOption,
+				chaptersFieldNameOption,
+				clipStartFieldNameOption,
+				clipEndFieldNameOption,
+				metadataFieldsOption,
+				preferredAudioLanguageOption,
+				fallbackStreamFieldNameOption,
+				providerOption,
+				hostUrlOption,
+				streamingConfigGroup,
+				streamSecretOption,
+				signOnServerOption,
+				urlSchemaOption,
+				tokenAlgorithmOption,
+				tokenKeyIdOption,
+				tokenAclOption,
+				tokenStartOffsetOption,
+				tokenNameOption,
+				expiresInMinutesOption,
+				includeIpOption,
+				ipv6HandlingOption,
+				streamFormatOption,
+				enableFallbackOption,
+				drmConfigGroup,
+				drmLicenseUrlOption,
+				drmLicenseHeadersOption,
+				drmClearKeysOption,
+				drmKeySystemsOption,
+				fieldOptionsGroup,
+				...fieldOptions
+			];
+		}
+
+		const collection = relations?.m2o?.related_collection;
+
+		const providerOption = {
+			field: 'provider',
+			name: 'Provider',
+			type: 'string' as const,
+			meta: {
+				width: 'full' as const,
+				interface: 'select-dropdown',
+				group: 'streaming_config',
+				options: {
+					choices: getStreamProviders().map((provider) => ({ text: provider.name, value: provider.id })),
+					allowNone: true,
+					placeholder: 'None (Host URL and URL Schema)'
+				},
+				note: 'Resolve the video IDs stored in the items (e.g., Cloudflare Stream UID, Mux playback ID) into the manifest and thumbnail URLs of the provider. Host URL: Cloudflare customer subdomain (https://customer-<code>.cloudflarestream.com) or Bunny Stream pull zone (https://vz-<id>.b-cdn.net). Signed playback: Bunny token authentication key as Stream Secret; Mux or Cloudflare signing key (base64 encoded private key, with its Key ID) and the Vimeo OTT API key only in the environment (STREAMING_VIDEO_PLAYER_SECRET_<PROVIDER|ALGORITHM>)'
+			},
+			schema: {
+				default_value: null
+			}
+		};
+
+		const hostUrlOption = {
+			field: 'host_url',
+			name: 'Host URL',
+			type: 'string' as const,
+			meta: {
+				width: 'full' as const,
+				interface: 'input',
+				group: 'streaming_config',
+				options: {
+					placeholder: typeof window !== 'undefined' ? window.location.origin : ''
+				},
+				note: `Host domain (e.g., https://example.com). Default: ${typeof window !== 'undefined' ? window.location.origin : ''}. Leave empty when working with fully qualified URLs in collection.`
+			}
+		};
+
+		const streamFormatOption = {
+			field: 'stream_format',
+			name: 'Stream Format',
+			type: 'string' as const,
+			meta: {
+				width: 'full' as const,
+				interface: 'select-dropdown',
+				group: 'streaming_config',
+				options: {
+					choices: [
+						{ text: 'Detect automatically', value: 'auto' },
+						{ text: 'HLS', value: 'hls' },
+						{ text: 'MPEG-DASH', value: 'dash' },
+						{ text: 'Progressive file (MP4, WebM)', value: 'native' }
+					]
+				},
+				note: 'Detected from the Content-Type or the first bytes of the stream URL (e.g. /assets/:id playlists without file extension). Set explicitly when the server doesn\'t allow the probe request.'
+			},
+			schema: {
+				default_value: 'auto'
+			}
+		};
+
+		const enableFallbackOption = {
+			field: 'enable_fallback',
+			name: 'Fallback on Errors',
+			type: 'boolean' as const,
+			meta: {
+				width: 'full' as const,
+				interface: 'boolean',
+				group: 'streaming_config',
+				options: {
+					label: 'Fall back to the next source when playback fails'
+				},
+				note: 'Media errors are recovered first. A stream that still fails falls back to the fallback stream link and then to the source file (/assets/:id), a banner shows which source is playing. Off keeps the error of the stream.'
+			},
+			schema: {
+				default_value: true
+			}
+		};
+
+		const drmConfigGroup = {
+			field: 'drm_config',
+			name: 'DRM',
+			type: 'alias' as const,
+			meta: {
+				field: 'drm_config',
+				width: 'full' as const,
+				interface: 'group-detail',
+				special: ['alias', 'no-data', 'group'],
+				options: {
+					start: 'collapsed'
+				},
+				conditions: [
+					{
+						name: 'Hide when stream_link_field_name is empty',
+						rule: {
+							_or: [
+								{
+									stream_link_field_name: {
+										_eq: null
+									}
+								},
+								{
+									stream_link_field_name: {
+										_eq: ''
+									}
+								}
+							]
+						},
+						hidden: true
+					}
+				]
+			}
+		};
+
+		const drmLicenseUrlOption = {
+			field: 'drm_license_url',
+			name: 'License Server URL',
+			type: 'string' as const,
+			meta: {
+				width: 'full' as const,
+				interface: 'input',
+				group: 'drm_config',
+				options: {
+					placeholder: 'https://license.example.com/widevine'
+				},
+				note: 'License server of encrypted streams (Widevine, PlayReady, ClearKey without keys below)'
+			}
+		};
+
+		const drmLicenseHeadersOption = {
+			field: 'drm_license_headers',
+			name: 'License Request Headers',
+			type: 'json' as const,
+			meta: {
+				width: 'full' as const,
+				interface: 'list',
+				group: 'drm_config',
+				options: {
+					template: '{{ header }}',
+					addLabel: 'Add Header',
+					fields: [
+						{
+							field: 'header',
+							name: 'Header',
+							type: 'string',
+							meta: {
+								field: 'header',
+								width: 'half',
+								interface: 'input',
+								options: {
+									placeholder: 'Authorization'
+								}
+							}
+						},
+						{
+							field: 'value',
+							name: 'Value',
+							type: 'string',
+							meta: {
+								field: 'value',
+								width: 'half',
+								interface: 'input'
+							}
+						}
+					]
+				},
+				note: 'Optional: Headers sent with every license request (e.g. a token of your DRM provider)'
+			}
+		};
+
+		const drmClearKeysOption = {
+			field: 'drm_clearkeys',
+			name: 'ClearKey Keys',
+			type: 'json' as const,
+			meta: {
+				width: 'full' as const,
+				interface: 'list',
+				group: 'drm_config',
+				options: {
+					template: '{{ kid }}',
+					addLabel: 'Add Key',
+					fields: [
+						{
+							field: 'kid',
+							name: 'Key ID',
+							type: 'string',
+							meta: {
+								field: 'kid',
+								width: 'half',
+								interface: 'input',
+								options: {
+									placeholder: '32 hex characters',
+									font: 'monospace'
+								}
+							}
+						},
+						{
+							field: 'key',
+							name: 'Key',
+							type: 'string',
+							meta: {
+								field: 'key',
+								width: 'half',
+								interface: 'input',
+								options: {
+									placeholder: '32 hex characters',
+									font: 'monospace',
+									masked: true
+								}
+							}
+						}
+					]
+				},
+				note: 'Optional: Key IDs and keys (hex) for testing ClearKey encrypted streams. Served by the license stub of the video-player endpoint to users who can read this field - don\'t use production keys.'
+			}
+		};
+
+		const drmKeySystemsOption = {
+			field: 'drm_key_systems',
+			name: 'Key System Priority',
+			type: 'json' as const,
+			meta: {
+				width: 'full' as const,
+				interface: 'tags',
+				group: 'drm_config',
+				options: {
+					presets: DRM_KEY_SYSTEMS.map((keySystem) => keySystem.id),
+					allowCustom: false,
+					alphabetize: false
+				},
+				note: 'Key systems to use, highest priority first (default: Widevine, PlayReady, ClearKey). HLS.js only uses the priority to enable key systems.'
+			},
+			schema: {
+				default_value: DRM_KEY_SYSTEMS.map((keySystem) => keySystem.id)
+			}
+		};
+
+		const urlSchemaOption = {
+			field: 'url_schema',
+			name: 'URL Schema',
+			type: 'string' as const,
+			meta: {
+				width: 'full' as const,
+				interface: 'input',
+				group: 'streaming_config',
+				options: {
+					placeholder: '{{host_url}}{{item_field}}'
+				},
+				note: 'Optional: URL template with mustache syntax placeholders: {{host_url}}, {{item_field}} and the placeholders of the Token Algorithm (nginx: {{token}}, {{expires}}). Example: {{host_url}}/stream/{{token}}/{{expires}}{{item_field}}',
+				conditions: [
+					{
+						name: 'Hide when no stream secret and server signing is disabled',
+						rule: {
+							_and: [
+								{
+									_or: [
+										{
+											stream_secret: {
+												_eq: null
+											}
+										},
+										{
+											stream_secret: {
+												_eq: ''
+											}
+										}
+									]
+								},
+								{
+									sign_on_server: {
+										_neq: true
+									}
+								}
+							]
+						},
+						hidden: true
+					},
+					{
+						name: 'Hide when a provider preset is selected',
+						rule: {
+							provider: {
+								_nnull: true
+							}
+						},
+						hidden: true
+					}
+				]
+			}
+		};
+		
+		const streamingConfigGroup = {
+			field: 'streaming_config',
+			name: 'Streaming Configuration',
+			type: 'alias' as const,
+			meta: {
+				field: 'streaming_config',
+				width: 'full' as const,
+				interface: 'group-detail',
+				special: ['alias', 'no-data', 'group'],
+				options: {
+					start: 'collapsed'
+				},
+				conditions: [
+					{
+						name: 'Hide when stream_link_field_name is empty',
+						rule: {
+							_or: [
+								{
+									stream_link_field_name: {
+										_eq: null
+									}
+								},
+								{
+									stream_link_field_name: {
+										_eq: ''
+									}
+								}
+							]
+						},
+						hidden: true
+					}
+				]
+			}
+		};
+		
+		const streamSecretOption = {
+			field: 'stream_secret',
+			name: 'Stream Secret',
+			type: 'string' as const,
+			meta: {
+				width: 'full' as const,
+				interface: 'input',
+				group: 'streaming_config',
+				options: {
+					placeholder: 'Enter stream secret for HLS token generation',
+					secret: true
+				},
+				note: 'Secret key used for generating secure HLS stream tokens (the key of the selected Token Algorithm, e.g. nginx secure_link secret or Akamai hex key). Private keys (CloudFront, Mux, Cloudflare) are only read from the environment: STREAMING_VIDEO_PLAYER_SECRET_<COLLECTION>_<FIELD>, STREAMING_VIDEO_PLAYER_SECRET_<ALGORITHM> or STREAMING_VIDEO_PLAYER_SECRET'
+			}
+		};
+
+		const signOnServerOption = {
+			field: 'sign_on_server',
+			name: 'Sign on Server',
+			type: 'boolean' as const,
+			meta: {
+				width: 'full' as const,
+				interface: 'boolean',
+				group: 'streaming_config',
+				options: {
+					label: 'Sign stream links on the server'
+				},
+				note: 'Generate tokens in the bundled endpoint instead of the browser. Set STREAMING_VIDEO_PLAYER_SECRET in the Directus environment and leave Stream Secret empty to keep the secret out of the field configuration.'
+			},
+			schema: {
+				default_value: false
+			}
+		};
+
+		const includeIpOption = {
+			field: 'include_ip',
+			name: 'Include IP',
+			type: 'boolean' as const,
+			meta: {
+				width: 'full' as const,
+				interface: 'boolean',
+				group: 'streaming_config',
+				options: {
+					label: 'Include client IP'
+				},
+				note: 'Include the client IP address (as seen by Directus) into secure token generation for client unique stream links. Tokens are always signed on the server when enabled.',
+				conditions: [
+					{
+						name: 'Hide when no stream secret and server signing is disabled',
+						rule: {
+							_and: [
+								{
+									_or: [
+										{
+											stream_secret: {
+												_eq: null
+											}
+										},
+										{
+											stream_secret: {
+												_eq: ''
+											}
+										}
+									]
+								},
+								{
+									sign_on_server: {
+										_neq: true
+									}
+								}
+							]
+						},
+						hidden: true
+					}
+				]
+			},
+			schema: {
+				default_value: false
+			}
+		};
+
+		const ipv6HandlingOption = {
+			field: 'ipv6_handling',
+			name: 'IPv6 Handling',
+			type: 'string' as const,
+			meta: {
+				width: 'full' as const,
+				interface: 'select-dropdown',
+				group: 'streaming_config',
+				options: {
+					choices: [
+						{ text: 'Convert IPv4-mapped addresses to IPv4', value: 'unmap' },
+						{ text: 'Use the address as reported', value: 'as_is' },
+						{ text: 'Use the IPv6 /64 network prefix', value: 'prefix_64' }
+					]
+				},
+				note: 'How the client IP is written into the token. IPv4-mapped addresses (::ffff:1.2.3.4) match nginx $remote_addr for IPv4 clients. The /64 prefix keeps tokens valid across IPv6 privacy address changes.',
+				conditions: [
+					{
+						name: 'Hide when include_ip is disabled',
+						rule: {
+							include_ip: {
+								_neq: true
+							}
+						},
+						hidden: true
+					}
+				]
+			},
+			schema: {
+				default_value: 'unmap'
 			}
 		};
 
-		const urlSchemaOption = {
-			field: 'url_schema',
-			name: 'URL Schema',
+		const tokenAlgorithmOption = {
+			field: 'token_algorithm',
+			name: 'Token Algorithm',
 			type: 'string' as const,
 			meta: {
 				width: 'full' as const,
-				interface: 'input',
+				interface: 'select-dropdown',
 				group: 'streaming_config',
 				options: {
-					placeholder: '{{host_url}}{{item_field}}'
+					choices: getTokenAlgorithms().map((algorithm) => ({ text: algorithm.name, value: algorithm.id }))
 				},
-				note: 'Optional: URL template with mustache syntax placeholders: {{host_url}}, {{token}}, {{expires}}, {{item_field}}. Example: {{host_url}}/stream/{{token}}/{{expires}}{{item_field}}',
+				note: `Token scheme of your streaming server or CDN. URL Schema placeholders: ${getTokenAlgorithms().map((algorithm) => `${algorithm.name}: ${algorithm.placeholders.map((placeholder) => `{{${placeholder}}}`).join(', ')}`).join('; ')}`,
 				conditions: [
 					{
-						name: 'Hide when stream_secret is empty',
+						name: 'Hide when no stream secret and server signing is disabled',
 						rule: {
-							_or: [
+							_and: [
 								{
-									stream_secret: {
-										_eq: null
-									}
+									_or: [
+										{
+											stream_secret: {
+												_eq: null
+											}
+										},
+										{
+											stream_secret: {
+												_eq: ''
+											}
+										}
+									]
 								},
 								{
-									stream_secret: {
-										_eq: ''
+									sign_on_server: {
+										_neq: true
 									}
 								}
 							]
 						},
 						hidden: true
+					},
+					{
+						name: 'Hide when a provider preset is selected',
+						rule: {
+							provider: {
+								_nnull: true
+							}
+						},
+						hidden: true
 					}
 				]
+			},
+			schema: {
+				default_value: DEFAULT_TOKEN_ALGORITHM
 			}
 		};
-		
-		const streamingConfigGroup = {
-			field: 'streaming_config',
-			name: 'Streaming Configuration',
-			type: 'alias' as const,
+
+		const tokenKeyIdOption = {
+			field: 'token_key_id',
+			name: 'Key ID',
+			type: 'string' as const,
 			meta: {
-				field: 'streaming_config',
-				width: 'full' as const,
-				interface: 'group-detail',
-				special: ['alias', 'no-data', 'group'],
+				width: 'half' as const,
+				interface: 'input',
+				group: 'streaming_config',
 				options: {
-					start: 'collapsed'
+					placeholder: 'K2JCJMDEHXQW5F'
 				},
+				note: 'Key (pair) ID of the signing key, e.g. the CloudFront public key ID or the Mux / Cloudflare signing key ID',
 				conditions: [
 					{
-						name: 'Hide when stream_link_field_name is empty',
-						rule: {
-							_or: [
-								{
-									stream_link_field_name: {
-										_eq: null
-									}
-								},
-								{
-									stream_link_field_name: {
-										_eq: ''
-									}
-								}
-							]
-						},
+						name: 'Hide when the token algorithm has no key ID',
+						rule: tokenInputHiddenRule('key_id'),
 						hidden: true
 					}
 				]
 			}
 		};
-		
-		const streamSecretOption = {
-			field: 'stream_secret',
-			name: 'Stream Secret',
+
+		const tokenAclOption = {
+			field: 'token_acl',
+			name: 'ACL Path',
 			type: 'string' as const,
 			meta: {
-				width: 'full' as const,
+				width: 'half' as const,
 				interface: 'input',
 				group: 'streaming_config',
 				options: {
-					placeholder: 'Enter stream secret for HLS token generation',
-					secret: true
+					placeholder: '/videos/*'
+				},
+				note: 'Path the token grants access to, so one token also covers the segments of a stream. Leave empty to sign the stream URL only.',
+				conditions: [
+					{
+						name: 'Hide when the token algorithm has no ACL path',
+						rule: tokenInputHiddenRule('acl'),
+						hidden: true
+					}
+				]
+			}
+		};
+
+		const tokenStartOffsetOption = {
+			field: 'token_start_offset',
+			name: 'Start Time Offset (seconds)',
+			type: 'integer' as const,
+			meta: {
+				width: 'half' as const,
+				interface: 'input',
+				group: 'streaming_config',
+				options: {
+					placeholder: '30',
+					min: 0
 				},
-				note: 'Secret key used for generating secure HLS stream tokens (MD5 hash)'
+				note: 'Add a start time (now minus the offset) to the token. Leave empty for tokens without a start time.',
+				conditions: [
+					{
+						name: 'Hide when the token algorithm has no start time',
+						rule: tokenInputHiddenRule('start_offset'),
+						hidden: true
+					}
+				]
 			}
 		};
 
-		const includeIpOption = {
-			field: 'include_ip',
-			name: 'Include IP',
-			type: 'boolean' as const,
+		const tokenNameOption = {
+			field: 'token_name',
+			name: 'Token Name',
+			type: 'string' as const,
 			meta: {
-				width: 'full' as const,
-				interface: 'boolean',
+				width: 'half' as const,
+				interface: 'input',
 				group: 'streaming_config',
-				readonly: true,
 				options: {
-					label: 'Include client IP'
+					placeholder: 'hdnts'
 				},
-				note: 'Include client IP address into secure token generation for client unique stream link protection',
+				note: 'Query parameter name (Akamai, default: hdnts) or parameter prefix (Wowza, default: wowzatoken)',
 				conditions: [
 					{
-						name: 'Hide when stream_secret is empty',
-						rule: {
-							_or: [
-								{
-									stream_secret: {
-										_eq: null
-									}
-								},
-								{
-									stream_secret: {
-										_eq: ''
-									}
-								}
-							]
-						},
+						name: 'Hide when the token algorithm has no token name',
+						rule: tokenInputHiddenRule('token_name'),
 						hidden: true
 					}
 				]
-			},
-			schema: {
-				default_value: false
 			}
 		};
 
@@ -536,17 +1660,26 @@ export default defineInterface({
 				note: 'Token expiration time in minutes (default: 60)',
 				conditions: [
 					{
-						name: 'Hide when stream_secret is empty',
+						name: 'Hide when no stream secret and server signing is disabled',
 						rule: {
-							_or: [
+							_and: [
 								{
-									stream_secret: {
-										_eq: null
-									}
+									_or: [
+										{
+											stream_secret: {
+												_eq: null
+											}
+										},
+										{
+											stream_secret: {
+												_eq: ''
+											}
+										}
+									]
 								},
 								{
-									stream_secret: {
-										_eq: ''
+									sign_on_server: {
+										_neq: true
 									}
 								}
 							]
@@ -588,6 +1721,23 @@ export default defineInterface({
 			}
 		};
 		
+		const fallbackStreamFieldNameOption = {
+			field: 'fallback_stream_field_name',
+			name: 'Fallback Stream Field Name',
+			type: 'string' as const,
+			meta: {
+				width: 'full' as const,
+				interface: 'input',
+				options: {
+					placeholder: 'stream_hls'
+				},
+				note: 'Optional: Name of the field in the related directus_files collection with a second stream link (e.g. the HLS link of a DASH stream), played when the stream link fails'
+			},
+			schema: {
+				default_value: ''
+			}
+		};
+
 		const posterImageFieldNameOption = {
 			field: 'poster_image_field_name',
 			name: 'Poster Image Field Name',
@@ -599,12 +1749,181 @@ export default defineInterface({
 				options: {
 					placeholder: 'image'
 				},
-				note: 'Optional: Name of the local field that contains the poster image. It must be a file (UUID) or string field (full URL).'
+				note: 'Optional: Name of the local field that contains the poster image. It must be a file (UUID) or string field (full URL). Editors can set it to the current video frame with "Set as Poster".'
+			},
+			schema: {
+				default_value: ''
+			}
+		};
+
+		const posterFormatOption = {
+			field: 'poster_format',
+			name: 'Poster Format',
+			type: 'string' as const,
+			meta: {
+				width: 'full' as const,
+				interface: 'select-dropdown',
+				options: {
+					choices: [
+						{ text: 'JPEG', value: 'image/jpeg' },
+						{ text: 'WebP', value: 'image/webp' }
+					]
+				},
+				note: 'Image format of posters captured with "Set as Poster". The file is uploaded to the configured folder and its id is written to the poster image field.'
+			},
+			schema: {
+				default_value: 'image/jpeg'
+			}
+		};
+
+		const subtitlesFieldNameOption = {
+			field: 'subtitles_field_name',
+			name: 'Subtitles Field Name',
+			type: 'string' as const,
+			meta: {
+				width: 'full' as const,
+				interface: 'input',
+				options: {
+					placeholder: 'subtitles'
+				},
+				note: 'Optional: Name of the local field that contains subtitle files (WebVTT or SRT). It must be a file or files (M2M) field. The language is read from the file name, e.g. captions.en.vtt.'
+			},
+			schema: {
+				default_value: ''
+			}
+		};
+
+		const thumbnailsFieldNameOption = {
+			field: 'thumbnails_field_name',
+			name: 'Thumbnails Field Name',
+			type: 'string' as const,
+			meta: {
+				width: 'full' as const,
+				interface: 'input',
+				options: {
+					placeholder: 'thumbnails'
+				},
+				note: 'Optional: Name of the local field that contains a WebVTT thumbnails track (sprite images with #xywh=) for the seek bar previews. It must be a file (UUID) or string field (full URL). I-frame playlists and DASH thumbnail tiles of the stream are preferred.'
+			},
+			schema: {
+				default_value: ''
+			}
+		};
+
+		const chaptersFieldNameOption = {
+			field: 'chapters_field_name',
+			name: 'Chapters Field Name',
+			type: 'string' as const,
+			meta: {
+				width: 'full' as const,
+				interface: 'input',
+				options: {
+					placeholder: 'chapters'
+				},
+				note: 'Optional: Name of the local JSON field that stores chapters and cue points, e.g. [{ "start": 0, "title": "Intro" }]. Chapters are shown on the seek bar and can be edited, imported and exported as WebVTT below the player.'
+			},
+			schema: {
+				default_value: ''
+			}
+		};
+
+		const clipStartFieldNameOption = {
+			field: 'clip_start_field_name',
+			name: 'Clip Start Field Name',
+			type: 'string' as const,
+			meta: {
+				width: 'half' as const,
+				interface: 'input',
+				options: {
+					placeholder: 'clip_start'
+				},
+				note: 'Optional: Name of the local numeric field that stores the clip in point in seconds. Use a decimal or float field for millisecond precision.'
+			},
+			schema: {
+				default_value: ''
+			}
+		};
+
+		const clipEndFieldNameOption = {
+			field: 'clip_end_field_name',
+			name: 'Clip End Field Name',
+			type: 'string' as const,
+			meta: {
+				width: 'half' as const,
+				interface: 'input',
+				options: {
+					placeholder: 'clip_end'
+				},
+				note: 'Optional: Name of the local numeric field that stores the clip out point in seconds. Playback is constrained to the clip.'
 			},
 			schema: {
 				default_value: ''
 			}
 		};
+
+		const metadataFieldsOption = {
+			field: 'metadata_fields',
+			name: 'Metadata Fields',
+			type: 'json' as const,
+			meta: {
+				width: 'full' as const,
+				interface: 'list',
+				options: {
+					template: '{{ property }} \u2192 {{ field }}',
+					addLabel: 'Add Field',
+					fields: [
+						{
+							field: 'property',
+							name: 'Property',
+							type: 'string',
+							meta: {
+								field: 'property',
+								width: 'half',
+								interface: 'select-dropdown',
+								options: {
+									choices: VIDEO_METADATA_PROPERTIES.map((property) => ({ text: property.name, value: property.id }))
+								}
+							}
+						},
+						{
+							field: 'field',
+							name: 'Item Field',
+							type: 'string',
+							meta: {
+								field: 'field',
+								width: 'half',
+								interface: 'input',
+								options: {
+									placeholder: 'video_duration'
+								}
+							}
+						}
+					]
+				},
+				note: 'Optional: Write properties of the loaded stream (duration, resolution, codecs, rendition ladder, languages) to fields of the item. The values are saved with the item.'
+			}
+		};
+
+		const preferredAudioLanguageOption = {
+			field: 'preferred_audio_language',
+			name: 'Preferred Audio Language',
+			type: 'string' as const,
+			meta: {
+				width: 'full' as const,
+				interface: 'select-dropdown',
+				options: {
+					choices: [
+						{ text: 'Language of the Directus user', value: 'user' },
+						{ text: 'Default track of the stream', value: 'default' }
+					],
+					allowOther: true
+				},
+				note: 'Audio track played by default for streams with multiple audio tracks. Enter a language code (e.g. de, en-US) to always prefer that language.'
+			},
+			schema: {
+				default_value: 'user'
+			}
+		};
 		
 		const fieldOptionsGroup = {
 			field: 'field_options',
@@ -638,16 +1957,119 @@ export default defineInterface({
 			}
 		};
 		
+		if (isPlaylistField) {
+			// Related collection of the entries - directus_files for files fields, none for CSV/JSON arrays
+			const entryCollection = relations?.m2o?.related_collection ?? relations?.o2m?.collection;
+
+			const playlistStreamLinkFieldNameOption = {
+				...streamLinkFieldNameOption,
+				meta: {
+					...streamLinkFieldNameOption.meta,
+					options: {
+						placeholder: 'stream_link'
+					},
+					note: `Optional: Name of the field in ${entryCollection} with the stream link of each entry. Files without stream link play the source file`
+				}
+			};
+
+			// CSV/JSON arrays hold the stream links themselves, so the streaming configuration is always needed
+			const playlistStreamingConfigGroup = entryCollection
+				? streamingConfigGroup
+				: { ...streamingConfigGroup, meta: { ...streamingConfigGroup.meta, conditions: [] } };
+
+			const playlistTitleFieldNameOption = {
+				field: 'playlist_title_field_name',
+				name: 'Title Field Name',
+				type: 'string' as const,
+				meta: {
+					width: 'half' as const,
+					interface: 'input',
+					options: {
+						placeholder: 'title'
+					},
+					note: 'Optional: Field of the entries shown in the playlist (default: file title or primary key)'
+				},
+				schema: {
+					default_value: ''
+				}
+			};
+
+			const playlistAutoAdvanceOption = {
+				field: 'playlist_auto_advance',
+				name: 'Auto-advance',
+				type: 'boolean' as const,
+				meta: {
+					width: 'half' as const,
+					interface: 'boolean',
+					options: {
+						label: 'Play the next entry when a video ends'
+					}
+				},
+				schema: {
+					default_value: true
+				}
+			};
+
+			return [
+				...(entryCollection ? [playlistStreamLinkFieldNameOption, playlistTitleFieldNameOption] : []),
+				playlistAutoAdvanceOption,
+				providerOption,
+				hostUrlOption,
+				playlistStreamingConfigGroup,
+				streamSecretOption,
+				signOnServerOption,
+				urlSchemaOption,
+				tokenAlgorithmOption,
+				tokenKeyIdOption,
+				tokenAclOption,
+				tokenStartOffsetOption,
+				tokenNameOption,
+				expiresInMinutesOption,
+				includeIpOption,
+				ipv6HandlingOption,
+				streamFormatOption,
+				drmConfigGroup,
+				drmLicenseUrlOption,
+				drmLicenseHeadersOption,
+				drmClearKeysOption,
+				drmKeySystemsOption
+			];
+		}
+
 		return [
 			infoNotice,
 			posterImageFieldNameOption,
+			posterFormatOption,
+			subtitlesFieldNameOption,
+			thumbnailsFieldNameOption,
+			chaptersFieldNameOption,
+			clipStartFieldNameOption,
+			clipEndFieldNameOption,
+			metadataFieldsOption,
+			preferredAudioLanguageOption,
 			streamLinkFieldNameOption,
+			fallbackStreamFieldNameOption,
+			providerOption,
 			hostUrlOption,
 			streamingConfigGroup,
 			streamSecretOption,
+			signOnServerOption,
 			urlSchemaOption,
+			tokenAlgorithmOption,
+			tokenKeyIdOption,
+			tokenAclOption,
+			tokenStartOffsetOption,
+			tokenNameOption,
 			expiresInMinutesOption,
 			includeIpOption,
+			ipv6HandlingOption,
+			streamFormatOption,
+			enableFallbackOption,
+			drmConfigGroup,
+			drmLicenseUrlOption,
+			drmLicenseHeadersOption,
+			drmClearKeysOption,
+			drmKeySystemsOption,
 			fieldOptionsGroup,
 			{
 				field: 'folder',
@@ -0,0 +1,133 @@
+import { computed, ref, toRefs, watch } from 'vue';
+import { defineLayout, useCollection, useItems, useSync } from '@directus/extensions-sdk';
+import LayoutComponent from './layout.vue';
+import OptionsComponent from './options.vue';
+
+// Fields of the gallery, stored in the layout options of the collection preset
+interface LayoutOptions {
+	streamField?: string | null;
+	posterField?: string | null;
+	titleField?: string | null;
+}
+
+interface LayoutQuery {
+	sort?: string[];
+	limit?: number;
+}
+
+const DEFAULT_LIMIT = 24;
+
+export default defineLayout<LayoutOptions, LayoutQuery>({
+	id: 'layout-video-gallery',
+	name: 'Video Gallery',
+	icon: 'video_library',
+	component: LayoutComponent,
+	slots: {
+		options: OptionsComponent,
+		sidebar: () => null,
+		actions: () => null
+	},
+	setup(props, { emit }) {
+		const { collection, filter, search } = toRefs(props);
+		const { fields: collectionFields, primaryKeyField, sortField } = useCollection(collection);
+
+		const layoutOptions = useSync(props, 'layoutOptions', emit);
+		const layoutQuery = useSync(props, 'layoutQuery', emit);
+
+		// Writable option refs, the options slot updates them through update:<name>
+		const useLayoutOption = <K extends keyof LayoutOptions>(key: K) => computed({
+			get: () => layoutOptions.value?.[key] ?? null,
+			set: (value: LayoutOptions[K]) => {
+				layoutOptions.value = { ...layoutOptions.value, [key]: value };
+			}
+		});
+
+		const streamField = useLayoutOption('streamField');
+		const posterField = useLayoutOption('posterField');
+		const titleField = useLayoutOption('titleField');
+
+		const streamFieldInfo = computed(() => collectionFields.value.find((field) => field.field === streamField.value) ?? null);
+		// Options of the Streaming Video Player interface on the stream field - host, tokens, format and DRM
+		const streamFieldOptions = computed<Record<string, any>>(() => streamFieldInfo.value?.meta?.options ?? {});
+		const isFileStreamField = computed(() => streamFieldInfo.value?.type === 'uuid');
+		const streamLinkFieldName = computed<string | null>(() => (isFileStreamField.value ? streamFieldOptions.value.stream_link_field_name || null : null));
+
+		const page = ref(1);
+
+		const limit = computed({
+			get: () => layoutQuery.value?.limit ?? DEFAULT_LIMIT,
+			set: (value: number) => {
+				layoutQuery.value = { ...layoutQuery.value, limit: value };
+				page.value = 1;
+			}
+		});
+
+		const sort = computed({
+			get: () => {
+				if (layoutQuery.value?.sort?.length) return layoutQuery.value.sort;
+				const defaultSortField = sortField.value || primaryKeyField.value?.field;
+				return defaultSortField ? [defaultSortField] : [];
+			},
+			set: (value: string[]) => {
+				layoutQuery.value = { ...layoutQuery.value, sort: value };
+			}
+		});
+
+		const fields = computed(() => {
+			const queryFields = new Set<string>();
+			if (primaryKeyField.value) queryFields.add(primaryKeyField.value.field);
+			if (streamField.value) {
+				if (isFileStreamField.value) {
+					queryFields.add(`${streamField.value}.id`);
+					if (streamLinkFieldName.value) queryFields.add(`${streamField.value}.${streamLinkFieldName.value}`);
+				} else {
+					queryFields.add(streamField.value);
+				}
+			}
+			if (posterField.value) queryFields.add(posterField.value);
+			if (titleField.value) queryFields.add(titleField.value);
+			return [...queryFields];
+		});
+
+		// The standard filter and search of the collection page
+		const { items, loading, error, totalPages, itemCount, getItems } = useItems(collection, {
+			sort,
+			limit,
+			page,
+			fields,
+			filter,
+			search
+		});
+
+		// A new filter or search starts on the first page
+		watch([filter, search], () => {
+			page.value = 1;
+		});
+
+		const resetPresetAndRefresh = async () => {
+			await props.resetPreset?.();
+			getItems();
+		};
+
+		return {
+			items,
+			loading,
+			error,
+			totalPages,
+			itemCount,
+			page,
+			limit,
+			sort,
+			primaryKeyField,
+			collectionFields,
+			streamField,
+			posterField,
+			titleField,
+			streamFieldOptions,
+			isFileStreamField,
+			streamLinkFieldName,
+			refresh: getItems,
+			resetPresetAndRefresh
+		};
+	}
+});
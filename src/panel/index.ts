@@ -0,0 +1,131 @@
+import { definePanel } from '@directus/extensions-sdk';
+import PanelComponent from './panel.vue';
+
+export default definePanel({
+	id: 'panel-video-player',
+	name: 'Streaming Video',
+	icon: 'live_tv',
+	description: 'Play the stream of a fixed item or of the latest item matching a filter, e.g. current broadcasts or the latest transcoded upload',
+	component: PanelComponent,
+	options: [
+		{
+			field: 'collection',
+			name: '$t:collection',
+			type: 'string',
+			meta: {
+				interface: 'system-collection',
+				options: {
+					includeSystem: true,
+					includeSingleton: false
+				},
+				width: 'half'
+			}
+		},
+		{
+			field: 'field',
+			name: 'Stream Field',
+			type: 'string',
+			meta: {
+				interface: 'system-field',
+				options: {
+					collectionField: 'collection',
+					typeAllowList: ['string', 'text', 'uuid']
+				},
+				note: 'Host URL, tokens, format and DRM are taken from the Streaming Video Player options of the field',
+				width: 'half'
+			}
+		},
+		{
+			field: 'source',
+			name: 'Item',
+			type: 'string',
+			meta: {
+				interface: 'select-dropdown',
+				options: {
+					choices: [
+						{ text: 'Latest item matching the filter', value: 'latest' },
+						{ text: 'Fixed item', value: 'item' }
+					]
+				},
+				width: 'half'
+			},
+			schema: {
+				default_value: 'latest'
+			}
+		},
+		{
+			field: 'item_id',
+			name: 'Item ID',
+			type: 'string',
+			meta: {
+				interface: 'input',
+				options: {
+					placeholder: 'Primary key of the item'
+				},
+				width: 'half',
+				hidden: true,
+				conditions: [
+					{
+						rule: { source: { _eq: 'item' } },
+						hidden: false
+					}
+				]
+			}
+		},
+		{
+			field: 'sort_field',
+			name: 'Latest By',
+			type: 'string',
+			meta: {
+				interface: 'system-field',
+				options: {
+					collectionField: 'collection',
+					allowPrimaryKey: true
+				},
+				note: 'The item with the highest value is played (default: primary key)',
+				width: 'half',
+				conditions: [
+					{
+						rule: { source: { _eq: 'item' } },
+						hidden: true
+					}
+				]
+			}
+		},
+		{
+			field: 'autoplay',
+			name: 'Autoplay',
+			type: 'boolean',
+			meta: {
+				interface: 'boolean',
+				options: {
+					label: 'Start playing muted'
+				},
+				width: 'half'
+			},
+			schema: {
+				default_value: true
+			}
+		},
+		{
+			field: 'filter',
+			name: '$t:filter',
+			type: 'json',
+			meta: {
+				interface: 'system-filter',
+				options: {
+					collectionField: 'collection',
+					relationalFieldSelectable: false
+				},
+				conditions: [
+					{
+						rule: { source: { _eq: 'item' } },
+						hidden: true
+					}
+				]
+			}
+		}
+	],
+	minWidth: 12,
+	minHeight: 8
+});
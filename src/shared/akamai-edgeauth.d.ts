@@ -0,0 +1,17 @@
+// Akamai's reference implementation of EdgeAuth tokens, the token algorithm tests compare against it
+declare module 'akamai-edgeauth' {
+	interface EdgeAuthOptions {
+		key: string;
+		tokenName?: string;
+		ip?: string;
+		startTime?: number | 'now';
+		endTime?: number;
+		windowSeconds?: number;
+	}
+
+	export default class EdgeAuth {
+		constructor(options: EdgeAuthOptions);
+		generateURLToken(url: string): string;
+		generateACLToken(acl: string | string[]): string;
+	}
+}
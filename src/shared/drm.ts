@@ -0,0 +1,86 @@
+/**
+ * DRM (Encrypted Media Extensions) configuration shared by the interface options, the player engines and the endpoint
+ *
+ * Must stay free of browser and Node.js specific APIs, the endpoint serves the ClearKey keys from the same options.
+ */
+
+// EME key system ids
+export type DrmKeySystem = 'com.widevine.alpha' | 'com.microsoft.playready' | 'org.w3.clearkey';
+
+export const DRM_KEY_SYSTEMS: Array<{ id: DrmKeySystem; name: string }> = [
+	{ id: 'com.widevine.alpha', name: 'Widevine' },
+	{ id: 'com.microsoft.playready', name: 'PlayReady' },
+	{ id: 'org.w3.clearkey', name: 'ClearKey' }
+];
+
+export const CLEARKEY_KEY_SYSTEM: DrmKeySystem = 'org.w3.clearkey';
+
+// ClearKey key id and key, 16 bytes each as 32 hex characters
+export interface ClearKey {
+	kid: string;
+	key: string;
+}
+
+export interface DrmConfig {
+	// Key systems to try, highest priority first
+	keySystems: DrmKeySystem[];
+	// License server of Widevine and PlayReady (and ClearKey without configured keys)
+	licenseUrl: string | null;
+	// License stub of the endpoint serving the configured ClearKey keys
+	clearKeyLicenseUrl: string | null;
+	// Additional headers of license requests (e.g., an authorization token of the license server)
+	headers: Record<string, string>;
+}
+
+/**
+ * Normalize a hex key id or key (UUID notation allowed), null if it isn't 16 bytes of hex
+ */
+function normalizeHex(value: unknown): string | null {
+	if (typeof value !== 'string') return null;
+	const hex = value.replace(/[\s-]/g, '').toLowerCase();
+	return /^[0-9a-f]{32}$/.test(hex) ? hex : null;
+}
+
+/**
+ * Read the ClearKey keys option (list of { kid, key }), invalid entries are skipped
+ */
+export function normalizeClearKeys(value: unknown): ClearKey[] {
+	if (!Array.isArray(value)) return [];
+	return value.reduce<ClearKey[]>((keys, entry) => {
+		const kid = normalizeHex(entry?.kid);
+		const key = normalizeHex(entry?.key);
+		if (kid && key) keys.push({ kid, key });
+		return keys;
+	}, []);
+}
+
+/**
+ * Read the key system priority option, all key systems in the default order when empty
+ */
+export function normalizeKeySystems(value: unknown): DrmKeySystem[] {
+	const knownIds = DRM_KEY_SYSTEMS.map((keySystem) => keySystem.id);
+	const keySystems = Array.isArray(value) ? value.filter((id): id is DrmKeySystem => knownIds.includes(id)) : [];
+	return keySystems.length > 0 ? Array.from(new Set(keySystems)) : knownIds;
+}
+
+/**
+ * Read the license headers option (list of { header, value })
+ */
+export function normalizeLicenseHeaders(value: unknown): Record<string, string> {
+	if (!Array.isArray(value)) return {};
+	return value.reduce<Record<string, string>>((headers, entry) => {
+		const header = typeof entry?.header === 'string' ? entry.header.trim() : '';
+		if (header) headers[header] = String(entry.value ?? '');
+		return headers;
+	}, {});
+}
+
+/**
+ * Get the license URL of a key system - ClearKey uses the endpoint stub when keys are configured
+ */
+export function getDrmLicenseUrl(drm: DrmConfig, keySystem: DrmKeySystem): string | null {
+	if (keySystem === CLEARKEY_KEY_SYSTEM) {
+		return drm.clearKeyLicenseUrl || drm.licenseUrl;
+	}
+	return drm.licenseUrl;
+}
@@ -0,0 +1,145 @@
+/**
+ * Video provider presets - resolve the video id stored in an item into the playback URLs of the provider
+ *
+ * URL schemas use the url_schema placeholders: {{host_url}}, {{item_field}} (the video id) and the
+ * placeholders of the provider's token algorithm. Must stay free of browser and Node.js specific APIs,
+ * providers looked up in an API receive the request function from the endpoint.
+ */
+import CryptoJS from 'crypto-js';
+
+export interface ProviderUrls {
+	hls: string;
+	dash?: string;
+	thumbnail?: string;
+}
+
+export interface ProviderPlayback {
+	url: string | null;
+	thumbnailUrl: string | null;
+}
+
+export interface ProviderContext {
+	videoId: string;
+	// Stream secret of the field, the API key of API resolved providers (only read from the environment)
+	secret: string;
+	streamFormat: string | null;
+	fetchJson: (url: string, headers: Record<string, string>) => Promise<any>;
+}
+
+export interface StreamProvider {
+	id: string;
+	name: string;
+	// {{host_url}} when the Host URL is empty
+	defaultHostUrl?: string;
+	// Public playback
+	urls?: ProviderUrls;
+	// Signed playback with the token placeholders of tokenAlgorithm, used when a stream secret is configured
+	signedUrls?: ProviderUrls;
+	tokenAlgorithm?: string;
+	// Token ACL when none is configured, {{item_field}} is the video id
+	tokenAcl?: string;
+	// Playback URLs are looked up in the provider API, stream links are always resolved by the endpoint
+	resolve?: (context: ProviderContext) => Promise<ProviderPlayback>;
+}
+
+// Cloudflare Stream - Host URL is the customer subdomain (https://customer-<code>.cloudflarestream.com)
+const cloudflareStream: StreamProvider = {
+	id: 'cloudflare_stream',
+	name: 'Cloudflare Stream',
+	defaultHostUrl: 'https://videodelivery.net',
+	urls: {
+		hls: '{{host_url}}/{{item_field}}/manifest/video.m3u8',
+		dash: '{{host_url}}/{{item_field}}/manifest/video.mpd',
+		thumbnail: '{{host_url}}/{{item_field}}/thumbnails/thumbnail.jpg'
+	},
+	signedUrls: {
+		hls: '{{host_url}}/{{token}}/manifest/video.m3u8',
+		dash: '{{host_url}}/{{token}}/manifest/video.mpd',
+		thumbnail: '{{host_url}}/{{token}}/thumbnails/thumbnail.jpg'
+	},
+	tokenAlgorithm: 'cloudflare_jwt'
+};
+
+// Mux - the item value is the playback id, thumbnails are served by image.mux.com
+const mux: StreamProvider = {
+	id: 'mux',
+	name: 'Mux',
+	defaultHostUrl: 'https://stream.mux.com',
+	urls: {
+		hls: '{{host_url}}/{{item_field}}.m3u8',
+		thumbnail: 'https://image.mux.com/{{item_field}}/thumbnail.jpg'
+	},
+	signedUrls: {
+		hls: '{{host_url}}/{{item_field}}.m3u8?token={{token}}',
+		thumbnail: 'https://image.mux.com/{{item_field}}/thumbnail.jpg?token={{thumbnail_token}}'
+	},
+	tokenAlgorithm: 'mux_jwt'
+};
+
+// Bunny Stream - Host URL is the pull zone of the library (https://vz-<id>.b-cdn.net), the token signs the video directory
+const bunnyStream: StreamProvider = {
+	id: 'bunny_stream',
+	name: 'Bunny Stream',
+	urls: {
+		hls: '{{host_url}}/{{item_field}}/playlist.m3u8',
+		thumbnail: '{{host_url}}/{{item_field}}/thumbnail.jpg'
+	},
+	signedUrls: {
+		hls: '{{host_url}}/{{item_field}}/playlist.m3u8?{{bunny_query}}',
+		thumbnail: '{{host_url}}/{{item_field}}/thumbnail.jpg?{{bunny_query}}'
+	},
+	tokenAlgorithm: 'bunny',
+	tokenAcl: '/{{item_field}}/'
+};
+
+const VIMEO_OTT_API_URL = 'https://api.vhx.tv';
+
+// Vimeo OTT - signed playback URLs of a video come from the API, the secret is the API key
+const vimeoOtt: StreamProvider = {
+	id: 'vimeo_ott',
+	name: 'Vimeo OTT',
+	resolve: async ({ videoId, secret, streamFormat, fetchJson }) => {
+		if (!secret) {
+			throw new Error('Vimeo OTT needs its API key in the environment (STREAMING_VIDEO_PLAYER_SECRET_VIMEO_OTT)');
+		}
+
+		const headers = { Authorization: `Basic ${CryptoJS.enc.Base64.stringify(CryptoJS.enc.Utf8.parse(`${secret}:`))}` };
+		const videoUrl = `${VIMEO_OTT_API_URL}/videos/${encodeURIComponent(videoId)}`;
+		const [files, video] = await Promise.all([
+			fetchJson(`${videoUrl}/files?quality=adaptive&format=${streamFormat === 'dash' ? 'dash' : 'm3u8'}`, headers),
+			// The thumbnail is optional, the video plays without it
+			fetchJson(videoUrl, headers).catch(() => null)
+		]);
+
+		const fileList: any[] = Array.isArray(files) ? files : files?._embedded?.files ?? [];
+		return {
+			url: fileList[0]?._links?.source?.href ?? null,
+			thumbnailUrl: video?.thumbnail?.large ?? video?.thumbnail?.source ?? null
+		};
+	}
+};
+
+const registry = new Map<string, StreamProvider>();
+
+/**
+ * Register a provider preset (replaces a provider with the same id)
+ */
+export function registerStreamProvider(provider: StreamProvider) {
+	registry.set(provider.id, provider);
+}
+
+[cloudflareStream, mux, bunnyStream, vimeoOtt].forEach(registerStreamProvider);
+
+/**
+ * Get a provider preset by id, null without provider (Host URL / URL Schema)
+ */
+export function getStreamProvider(id?: string | null): StreamProvider | null {
+	return (id && registry.get(id)) || null;
+}
+
+/**
+ * List all registered provider presets
+ */
+export function getStreamProviders(): StreamProvider[] {
+	return Array.from(registry.values());
+}
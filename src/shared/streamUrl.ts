@@ -0,0 +1,349 @@
+/**
+ * Stream URL construction shared by the app (interface) and the API (endpoint)
+ *
+ * Must stay free of browser and Node.js specific APIs so it can be bundled for both sides.
+ */
+import { getTokenAlgorithm, type TokenSigners } from './tokenAlgorithms';
+import { getStreamProvider } from './providers';
+
+export { generateSecurePathHash } from './tokenAlgorithms';
+
+export type Ipv6Handling = 'unmap' | 'as_is' | 'prefix_64';
+
+export interface StreamUrlConfig {
+	hostUrl?: string;
+	urlSchema?: string;
+	streamSecret?: string;
+	includeIp?: boolean;
+	ip?: string | null;
+	expiresInMinutes?: number;
+	// Token algorithm id (see tokenAlgorithms) and its inputs
+	tokenAlgorithm?: string;
+	tokenKeyId?: string;
+	tokenAcl?: string;
+	tokenStartOffset?: number | string | null;
+	tokenName?: string;
+	// Signers only available on the server (e.g., RSA for CloudFront)
+	signers?: TokenSigners;
+	// Host URL used when hostUrl is empty (e.g., the Directus URL)
+	defaultHostUrl: string;
+	// Origin used when a host URL has no protocol
+	origin: string;
+	// Provider preset (see providers), the stream link is the video id
+	provider?: string | null;
+	// Stream Format option, picks the DASH manifest of providers that have one
+	streamFormat?: string | null;
+}
+
+export type ProviderUrlTarget = 'stream' | 'thumbnail';
+
+/**
+ * Expand an IPv6 address to its eight hextets (without leading zeros)
+ */
+function expandIpv6(ip: string): string[] | null {
+	// Strip zone index (e.g., fe80::1%eth0)
+	const address = ip.split('%')[0];
+	const halves = address.split('::');
+	if (halves.length > 2) return null;
+
+	const head = halves[0] ? halves[0].split(':') : [];
+	const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+	const missing = 8 - head.length - tail.length;
+	if (missing < 0 || (halves.length === 1 && missing !== 0)) return null;
+
+	const hextets = [...head, ...new Array(missing).fill('0'), ...tail];
+	if (!hextets.every((hextet) => /^[0-9a-f]{1,4}$/i.test(hextet))) return null;
+
+	return hextets.map((hextet) => parseInt(hextet, 16).toString(16));
+}
+
+/**
+ * Normalize the client IP the way it is written into the secure link token
+ */
+export function normalizeClientIp(ip: string | null | undefined, handling: Ipv6Handling = 'unmap'): string {
+	if (!ip) return '';
+
+	if (handling === 'as_is' || !ip.includes(':')) {
+		return ip;
+	}
+
+	// IPv4-mapped IPv6 address (::ffff:1.2.3.4) - nginx $remote_addr reports these as plain IPv4
+	const mappedIpv4 = ip.match(/^::ffff:(\d{1,3}(?:\.\d{1,3}){3})$/i);
+	if (mappedIpv4) {
+		return mappedIpv4[1];
+	}
+
+	if (handling === 'prefix_64') {
+		const hextets = expandIpv6(ip);
+		return hextets ? hextets.slice(0, 4).join(':') + '::' : ip;
+	}
+
+	return ip;
+}
+
+/**
+ * Generate the placeholder values of the configured token algorithm
+ */
+function generateToken(config: StreamUrlConfig, streamSecret: string, unsignedUrl: string, subject: string): Record<string, string> {
+	const algorithm = getTokenAlgorithm(config.tokenAlgorithm);
+
+	// The IP can only be known server-side (see the sign endpoint), in the browser it stays empty
+	const ip = config.includeIp ? (config.ip || null) : null;
+
+	// Generate expiration timestamp (default: 60 minutes)
+	const now = Math.round(Date.now() / 1000);
+	const expiresInMinutes = config.expiresInMinutes ?? 60;
+	const expires = now + expiresInMinutes * 60;
+
+	// Start time is set back by the offset to tolerate clock skew between Directus and the CDN
+	const startOffset = config.tokenStartOffset;
+	const start = startOffset !== undefined && startOffset !== null && String(startOffset) !== '' ? now - Number(startOffset) : null;
+
+	let path = unsignedUrl;
+	try {
+		path = new URL(unsignedUrl).pathname;
+	} catch (e) {
+		// Relative URL, strip the query only
+		path = unsignedUrl.split('?')[0];
+	}
+
+	return algorithm.generate({
+		secret: streamSecret,
+		expires,
+		start,
+		ip,
+		url: unsignedUrl,
+		path,
+		keyId: config.tokenKeyId || '',
+		acl: config.tokenAcl || '',
+		tokenName: config.tokenName || '',
+		subject,
+		signers: config.signers || {}
+	});
+}
+
+/**
+ * Replace (or remove, without values) the token placeholders of a URL template
+ */
+function replaceTokenPlaceholders(template: string, placeholders: string[], values: Record<string, string> | null): string {
+	return placeholders.reduce((result, placeholder) => {
+		return result.replace(new RegExp(`\\{\\{${placeholder}\\}\\}`, 'g'), values?.[placeholder] ?? '');
+	}, template);
+}
+
+/**
+ * Remove separators left behind by removed query placeholders
+ */
+function cleanUnsignedUrl(url: string): string {
+	return url.replace(/&{2,}/g, '&').replace(/\?&/, '?').replace(/[?&]+$/, '');
+}
+
+/**
+ * Build the manifest or thumbnail URL of a provider video id - signed with the provider's token algorithm
+ * when a stream secret (signing key) is configured
+ */
+export function buildProviderUrl(streamLink: string, config: StreamUrlConfig, target: ProviderUrlTarget = 'stream'): string | null {
+	const provider = getStreamProvider(config.provider);
+	if (!provider?.urls || !streamLink) return null;
+
+	const streamSecret = provider.signedUrls ? config.streamSecret || '' : '';
+	const urls = streamSecret ? provider.signedUrls! : provider.urls;
+	const schema = target === 'thumbnail' ? urls.thumbnail : (config.streamFormat === 'dash' && urls.dash) || urls.hls;
+	if (!schema) return null;
+
+	let hostUrl = config.hostUrl || provider.defaultHostUrl || config.defaultHostUrl;
+	if (!hostUrl.startsWith('http://') && !hostUrl.startsWith('https://')) {
+		hostUrl = 'https://' + hostUrl;
+	}
+
+	const videoId = streamLink.replace(/^\/+/, '');
+	const url = schema.replace(/\{\{host_url\}\}/g, hostUrl.replace(/\/+$/, '')).replace(/\{\{item_field\}\}/g, videoId);
+	if (!streamSecret) return url;
+
+	// The provider decides the token scheme, the ACL defaults to the directory of the video
+	const tokenConfig: StreamUrlConfig = {
+		...config,
+		tokenAlgorithm: provider.tokenAlgorithm,
+		tokenAcl: config.tokenAcl || provider.tokenAcl?.replace(/\{\{item_field\}\}/g, videoId)
+	};
+	const tokenPlaceholders = getTokenAlgorithm(provider.tokenAlgorithm).placeholders;
+	const values = generateToken(tokenConfig, streamSecret, cleanUnsignedUrl(replaceTokenPlaceholders(url, tokenPlaceholders, null)), videoId);
+	return replaceTokenPlaceholders(url, tokenPlaceholders, values);
+}
+
+/**
+ * Build the playable stream URL from a stream link (item field value)
+ */
+export function buildStreamUrl(streamLink: string, config: StreamUrlConfig): string | null {
+	if (!streamLink) return null;
+
+	// If streamLink is already a fully qualified URL (http:// or https://), return it directly
+	// This allows external HLS streams (e.g., Cloudflare Stream) to work without hostUrl/secret configuration
+	if (streamLink.startsWith('http://') || streamLink.startsWith('https://')) {
+		return streamLink;
+	}
+
+	// Video ids of a provider preset resolve into the provider's playback URLs
+	if (getStreamProvider(config.provider)?.urls) {
+		return buildProviderUrl(streamLink, config);
+	}
+
+	try {
+		// Get stream secret
+		const streamSecret = config.streamSecret || '';
+
+		// Normalize streamLink - remove leading slash if present (we'll handle it in the schema)
+		// But keep it if it's part of the path structure
+		let normalizedStreamLink = streamLink;
+		if (normalizedStreamLink.startsWith('/')) {
+			normalizedStreamLink = normalizedStreamLink.substring(1);
+		}
+
+		// If url_schema is provided, use it
+		if (config.urlSchema) {
+			let urlSchema = config.urlSchema;
+
+			// Decode URL-encoded characters (in case Directus encoded the template placeholders)
+			try {
+				urlSchema = decodeURIComponent(urlSchema);
+			} catch (e) {
+				// If decoding fails, use original value
+			}
+
+			// Get host URL, falling back to the default host
+			let hostUrl = config.hostUrl || config.defaultHostUrl;
+
+			// Ensure hostUrl has a protocol
+			if (!hostUrl.startsWith('http://') && !hostUrl.startsWith('https://')) {
+				hostUrl = config.origin;
+			}
+
+			// Normalize hostUrl - remove trailing slash
+			hostUrl = hostUrl.replace(/\/+$/, '');
+
+			// Replace {{host_url}} placeholder
+			urlSchema = urlSchema.replace(/\{\{host_url\}\}/g, hostUrl);
+
+			// Check for other placeholders
+			const tokenPlaceholders = getTokenAlgorithm(config.tokenAlgorithm).placeholders;
+			const hasTokenPlaceholder = tokenPlaceholders.some((placeholder) => urlSchema.includes(`{{${placeholder}}}`));
+			const hasItemPlaceholder = urlSchema.includes('{{item_field}}');
+
+			// Replace {{item_field}} placeholder with the streamLink value (doesn't require secret)
+			if (hasItemPlaceholder) {
+				urlSchema = urlSchema.replace(/\{\{item_field\}\}/g, normalizedStreamLink);
+			}
+
+			// Handle token placeholders (e.g., {{token}} and {{expires}})
+			if (hasTokenPlaceholder) {
+				if (!streamSecret) {
+					// If no secret, remove token placeholders
+					urlSchema = replaceTokenPlaceholders(urlSchema, tokenPlaceholders, null);
+				} else {
+					// Some algorithms sign the stream URL itself, so build it without the token first
+					let unsignedUrl = cleanUnsignedUrl(replaceTokenPlaceholders(urlSchema, tokenPlaceholders, null));
+					if (!hasItemPlaceholder) {
+						unsignedUrl = unsignedUrl + (unsignedUrl.endsWith('/') ? '' : '/') + normalizedStreamLink;
+					}
+					const values = generateToken(config, streamSecret, unsignedUrl, normalizedStreamLink);
+
+					// Replace the token placeholders
+					urlSchema = replaceTokenPlaceholders(urlSchema, tokenPlaceholders, values);
+				}
+			}
+
+			// If {{item_field}} was not in the schema, append streamLink at the end
+			if (!hasItemPlaceholder) {
+				// Ensure proper path separator
+				const separator = urlSchema.endsWith('/') ? '' : '/';
+				return urlSchema + separator + normalizedStreamLink;
+			}
+
+			// {{item_field}} was replaced, return the schema as-is
+			return urlSchema;
+		}
+
+		// Fallback to old behavior (backward compatibility)
+		// Get hostUrl template, falling back to the default host
+		let hostUrlTemplate = config.hostUrl || config.defaultHostUrl;
+
+		// Ensure hostUrl has a protocol
+		if (!hostUrlTemplate.startsWith('http://') && !hostUrlTemplate.startsWith('https://')) {
+			hostUrlTemplate = config.origin;
+		}
+
+		// Decode URL-encoded characters (in case Directus encoded the template placeholders)
+		try {
+			hostUrlTemplate = decodeURIComponent(hostUrlTemplate);
+		} catch (e) {
+			// If decoding fails, use original value
+		}
+
+		// Normalize hostUrlTemplate - remove trailing slash
+		hostUrlTemplate = hostUrlTemplate.replace(/\/+$/, '');
+
+		// Normalize streamLink - ensure it starts with /
+		if (!streamLink.startsWith('/')) {
+			streamLink = '/' + streamLink;
+		}
+
+		// Check if template placeholders exist FIRST - only add token values if placeholders are present
+		// Support the token algorithm placeholders (e.g., {{token}}, {{expires}}) and {{item_field}} in hostUrl
+		const tokenPlaceholders = getTokenAlgorithm(config.tokenAlgorithm).placeholders;
+		const hasTokenPlaceholder = tokenPlaceholders.some((placeholder) => hostUrlTemplate.includes(`{{${placeholder}}}`));
+		const hasItemPlaceholder = hostUrlTemplate.includes('{{item_field}}');
+		const hasTemplateSyntax = hasTokenPlaceholder || hasItemPlaceholder;
+
+		// Replace {{item_field}} placeholder with streamLink value (doesn't require secret)
+		if (hasItemPlaceholder) {
+			// Remove leading slash from streamLink for replacement
+			const streamLinkValue = streamLink.startsWith('/') ? streamLink.substring(1) : streamLink;
+			hostUrlTemplate = hostUrlTemplate.replace(/\{\{item_field\}\}/g, streamLinkValue);
+		}
+
+		if (hasTemplateSyntax) {
+			// Template syntax detected - we need to replace placeholders
+			if (!streamSecret && hasTokenPlaceholder) {
+				// If no secret but has token placeholders, remove them and return URL
+				const normalizedHost = replaceTokenPlaceholders(hostUrlTemplate, tokenPlaceholders, null);
+				// Normalize - remove trailing slash
+				const cleanHost = normalizedHost.replace(/\/+$/, '');
+				// If {{item_field}} was not in template, append streamLink
+				if (!hasItemPlaceholder) {
+					return cleanHost + streamLink;
+				}
+				return cleanHost;
+			}
+
+			// If we have token placeholders, generate and replace them
+			if (hasTokenPlaceholder) {
+				// Some algorithms sign the stream URL itself, so build it without the token first
+				let unsignedUrl = cleanUnsignedUrl(replaceTokenPlaceholders(hostUrlTemplate, tokenPlaceholders, null)).replace(/\/+$/, '');
+				if (!hasItemPlaceholder) {
+					unsignedUrl = unsignedUrl + streamLink;
+				}
+				const values = generateToken(config, streamSecret, unsignedUrl, streamLink.substring(1));
+
+				// Replace the token placeholders
+				hostUrlTemplate = replaceTokenPlaceholders(hostUrlTemplate, tokenPlaceholders, values);
+			}
+
+			// Normalize - remove trailing slash from hostUrl
+			const streamUrl = hostUrlTemplate.replace(/\/+$/, '');
+
+			// If {{item_field}} was not in template, append streamLink
+			if (!hasItemPlaceholder) {
+				return streamUrl + streamLink;
+			}
+
+			// {{item_field}} was replaced, return as-is
+			return streamUrl;
+		} else {
+			// No template syntax - just append streamLink
+			return hostUrlTemplate + streamLink;
+		}
+	} catch (error) {
+		console.error('Failed to construct stream URL:', error);
+		return `${config.origin}${streamLink}`;
+	}
+}
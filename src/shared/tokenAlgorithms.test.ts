@@ -0,0 +1,112 @@
+import { createHash, createSign, generateKeyPairSync } from 'node:crypto';
+import { describe, expect, it } from 'vitest';
+import { getSignedUrl } from '@aws-sdk/cloudfront-signer';
+import EdgeAuth from 'akamai-edgeauth';
+import { generateSecurePathHash, getTokenAlgorithm, type TokenContext } from './tokenAlgorithms';
+
+const { privateKey } = generateKeyPairSync('rsa', {
+	modulusLength: 2048,
+	privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+	publicKeyEncoding: { type: 'spki', format: 'pem' }
+});
+
+const createContext = (context: Partial<TokenContext>): TokenContext => ({
+	secret: 'secret',
+	expires: 2147483647,
+	start: null,
+	ip: null,
+	url: 'https://cdn.example.com/videos/movie/index.m3u8',
+	path: '/videos/movie/index.m3u8',
+	keyId: '',
+	acl: '',
+	tokenName: '',
+	subject: 'videos/movie/index.m3u8',
+	signers: {
+		rsaSha1: (data, key) => createSign('RSA-SHA1').update(data).sign(key, 'base64'),
+		rsaSha256: (data, key) => createSign('RSA-SHA256').update(data).sign(key, 'base64')
+	},
+	...context
+});
+
+describe('nginx secure_link (MD5)', () => {
+	// Example of the nginx documentation: secure_link_md5 "$secure_link_expires$uri$remote_addr secret"
+	it('matches the hash of the nginx documentation', () => {
+		expect(generateSecurePathHash('2147483647/s/link127.0.0.1', null, 'secret')).toBe('_e4Nc3iduzkWRm01TBBNYw');
+	});
+
+	it('hashes the expiry, client IP and secret', () => {
+		const expected = createHash('md5').update('2147483647 203.0.113.7 secret').digest('base64url');
+		const values = getTokenAlgorithm('nginx_md5').generate(createContext({ ip: '203.0.113.7' }));
+		expect(values).toEqual({ token: expected, expires: '2147483647' });
+	});
+
+	it('leaves links unsigned without a secret', () => {
+		expect(generateSecurePathHash('2147483647', null, '')).toBe('');
+	});
+});
+
+describe('Bunny CDN (SHA256)', () => {
+	// Documented token: base64url(sha256(security key + signed path + expires + ip + parameters)), without padding
+	const bunnyToken = (data: string) => createHash('sha256').update(data).digest('base64url');
+
+	it('signs the requested file', () => {
+		const values = getTokenAlgorithm('bunny').generate(createContext({ secret: 'bunny-key' }));
+		const token = bunnyToken('bunny-key/videos/movie/index.m3u82147483647');
+		expect(values.token).toBe(token);
+		expect(values.bunny_query).toBe(`token=${token}&expires=2147483647`);
+	});
+
+	it('signs a directory with token_path', () => {
+		const values = getTokenAlgorithm('bunny').generate(createContext({ secret: 'bunny-key', acl: '/videos/movie/', ip: '203.0.113.7' }));
+		const token = bunnyToken('bunny-key/videos/movie/2147483647203.0.113.7token_path=/videos/movie/');
+		expect(values.bunny_query).toBe(`token=${token}&token_path=%2Fvideos%2Fmovie%2F&expires=2147483647`);
+	});
+});
+
+describe('Akamai EdgeAuth (HMAC-SHA256)', () => {
+	const key = '52a152a152a152a152a152a152a1';
+
+	it('matches the Akamai reference implementation for URL tokens', () => {
+		const expected = new EdgeAuth({ key, endTime: 2147483647 }).generateURLToken('/videos/movie/index.m3u8');
+		const values = getTokenAlgorithm('akamai').generate(createContext({ secret: key }));
+		expect(values.token).toBe(expected);
+		expect(values.hdnts).toBe(`hdnts=${expected}`);
+	});
+
+	it('matches the Akamai reference implementation for ACL tokens with start time and IP', () => {
+		const expected = new EdgeAuth({ key, startTime: 1700000000, endTime: 2147483647, ip: '203.0.113.7' }).generateACLToken('/videos/*');
+		const values = getTokenAlgorithm('akamai').generate(createContext({ secret: key, start: 1700000000, ip: '203.0.113.7', acl: '/videos/*', tokenName: '__token__' }));
+		expect(values.token).toBe(expected);
+		expect(values.hdnts).toBe(`__token__=${expected}`);
+	});
+});
+
+describe('AWS CloudFront (RSA-SHA1)', () => {
+	const url = 'https://d111111abcdef8.cloudfront.net/videos/movie/index.m3u8';
+	const getQuery = (signedUrl: string) => Object.fromEntries(new URL(signedUrl).searchParams);
+	const parseQuery = (query: string) => Object.fromEntries(new URLSearchParams(query));
+
+	it('matches the AWS SDK signer for canned policies', () => {
+		const expected = getQuery(getSignedUrl({ url, keyPairId: 'K2JCJMDEHXQW5F', privateKey, dateLessThan: new Date(2147483647 * 1000) }));
+		const values = getTokenAlgorithm('cloudfront').generate(createContext({ secret: privateKey, url, keyId: 'K2JCJMDEHXQW5F' }));
+		expect(values.policy).toBe('');
+		expect(parseQuery(values.cf_query)).toEqual(expected);
+	});
+
+	it('matches the AWS SDK signer for custom policies with start time and IP', () => {
+		const expected = getQuery(getSignedUrl({
+			url,
+			keyPairId: 'K2JCJMDEHXQW5F',
+			privateKey,
+			dateLessThan: new Date(2147483647 * 1000),
+			dateGreaterThan: new Date(1700000000 * 1000),
+			ipAddress: '203.0.113.7'
+		}));
+		const values = getTokenAlgorithm('cloudfront').generate(createContext({ secret: privateKey, url, keyId: 'K2JCJMDEHXQW5F', start: 1700000000, ip: '203.0.113.7' }));
+		expect(parseQuery(values.cf_query)).toEqual(expected);
+	});
+
+	it('is only generated with a server-side signer', () => {
+		expect(() => getTokenAlgorithm('cloudfront').generate(createContext({ secret: privateKey, url, signers: {} }))).toThrow();
+	});
+});
@@ -0,0 +1,303 @@
+/**
+ * Token algorithm registry for secure stream links
+ *
+ * Each algorithm declares which token inputs it uses and which url_schema placeholders it fills.
+ * Must stay free of browser and Node.js specific APIs - algorithms that need those (e.g., RSA)
+ * receive a signer injected by the endpoint and are only available on the server.
+ */
+import CryptoJS from 'crypto-js';
+
+// Token inputs configurable in the interface options (token_key_id, token_acl, token_start_offset, token_name)
+export type TokenAlgorithmInput = 'key_id' | 'acl' | 'start_offset' | 'token_name';
+
+export interface TokenSigners {
+	// Returns the standard base64 RSA-SHA1 signature of data
+	rsaSha1?: (data: string, privateKey: string) => string;
+	// Returns the standard base64 RSA-SHA256 signature of data (RS256 JWTs)
+	rsaSha256?: (data: string, privateKey: string) => string;
+}
+
+export interface TokenContext {
+	secret: string;
+	// Unix timestamps (seconds)
+	expires: number;
+	start: number | null;
+	// Normalized client IP, only set when Include IP is enabled
+	ip: string | null;
+	// Stream URL without the token placeholders, and its path
+	url: string;
+	path: string;
+	keyId: string;
+	acl: string;
+	tokenName: string;
+	// Item value the token is issued for (e.g., the video id of a provider)
+	subject: string;
+	signers: TokenSigners;
+}
+
+export interface TokenAlgorithm {
+	id: string;
+	name: string;
+	inputs: TokenAlgorithmInput[];
+	// Placeholder names (without braces) filled by generate
+	placeholders: string[];
+	// Requires a server-side signer, stream links are always signed by the endpoint
+	serverOnly?: boolean;
+	generate: (context: TokenContext) => Record<string, string>;
+}
+
+export const DEFAULT_TOKEN_ALGORITHM = 'nginx_md5';
+
+/**
+ * URL-safe base64 without padding (nginx secure_link, Bunny CDN)
+ */
+function toUrlSafeBase64(wordArray: any): string {
+	return CryptoJS.enc.Base64.stringify(wordArray).replace(/=/g, '').replace(/\+/g, '-').replace(/\//g, '_');
+}
+
+/**
+ * CloudFront flavour of URL-safe base64
+ */
+function toCloudFrontBase64(base64: string): string {
+	return base64.replace(/\+/g, '-').replace(/=/g, '_').replace(/\//g, '~');
+}
+
+/**
+ * Client IP as CIDR block - /64 for IPv6 prefixes (see the IPv6 handling option)
+ */
+function toCidr(ip: string): string {
+	return ip.includes('/') ? ip : ip.endsWith('::') ? `${ip}/64` : `${ip}/${ip.includes(':') ? 128 : 32}`;
+}
+
+/**
+ * RS256 signed JWT (Mux signed playback, Cloudflare Stream signed URLs)
+ */
+function createJwt(payload: Record<string, unknown>, keyId: string, secret: string, signers: TokenSigners): string {
+	if (!signers.rsaSha256) {
+		throw new Error('Signed playback tokens can only be generated on the server');
+	}
+
+	const encode = (value: Record<string, unknown>) => toUrlSafeBase64(CryptoJS.enc.Utf8.parse(JSON.stringify(value)));
+	const unsignedToken = `${encode({ alg: 'RS256', typ: 'JWT', kid: keyId })}.${encode(payload)}`;
+	const signature = signers.rsaSha256(unsignedToken, secret).replace(/=/g, '').replace(/\+/g, '-').replace(/\//g, '_');
+	return `${unsignedToken}.${signature}`;
+}
+
+/**
+ * Generate secure path hash for token-based authentication
+ */
+export function generateSecurePathHash(
+	expires: string,
+	ip: string | null,
+	secret: string,
+	includeIp: boolean = false
+): string {
+	if (!expires) {
+		throw new Error('Must provide expires');
+	}
+	if (!secret) {
+		// Return empty string if no secret (stream secret is optional)
+		return '';
+	}
+
+	// Generate MD5 hash using crypto-js (browser-compatible)
+	// Include IP only if includeIp is true and ip is provided
+	const input = includeIp && ip ? expires + ' ' + ip + ' ' + secret : expires + ' ' + secret;
+
+	// Apply URL-safe base64 encoding (same as Node.js Buffer.toString('base64'))
+	return toUrlSafeBase64(CryptoJS.MD5(input));
+}
+
+// nginx secure_link_md5 "$secure_link_expires [$remote_addr] <secret>"
+const nginxMd5: TokenAlgorithm = {
+	id: 'nginx_md5',
+	name: 'nginx secure_link (MD5)',
+	inputs: [],
+	placeholders: ['token', 'expires'],
+	generate: ({ secret, expires, ip }) => {
+		const expiresValue = String(expires);
+		return {
+			token: generateSecurePathHash(expiresValue, ip, secret, !!ip),
+			expires: expiresValue
+		};
+	}
+};
+
+// Bunny CDN token authentication (SHA256 of key + path + expires [+ ip] + parameters)
+const bunny: TokenAlgorithm = {
+	id: 'bunny',
+	name: 'Bunny CDN (SHA256)',
+	inputs: ['acl'],
+	placeholders: ['token', 'expires', 'token_path', 'bunny_query'],
+	generate: ({ secret, expires, ip, path, acl }) => {
+		// A token path signs a whole directory (e.g., all HLS segments), otherwise only the requested file
+		const signaturePath = acl || path;
+		const parameterData = acl ? `token_path=${acl}` : '';
+		const parameterDataUrl = acl ? `&token_path=${encodeURIComponent(acl)}` : '';
+
+		const token = toUrlSafeBase64(CryptoJS.SHA256(secret + signaturePath + expires + (ip || '') + parameterData));
+
+		return {
+			token,
+			expires: String(expires),
+			token_path: acl ? encodeURIComponent(acl) : '',
+			bunny_query: `token=${token}${parameterDataUrl}&expires=${expires}`
+		};
+	}
+};
+
+// Akamai EdgeAuth token (HMAC-SHA256 with a hex key), e.g. hdnts=exp=...~acl=/*~hmac=...
+const akamai: TokenAlgorithm = {
+	id: 'akamai',
+	name: 'Akamai EdgeAuth (HMAC-SHA256)',
+	inputs: ['acl', 'start_offset', 'token_name'],
+	placeholders: ['token', 'expires', 'hdnts'],
+	generate: ({ secret, expires, start, ip, path, acl, tokenName }) => {
+		const fields: string[] = [];
+		if (ip) fields.push(`ip=${ip}`);
+		if (start !== null) fields.push(`st=${start}`);
+		fields.push(`exp=${expires}`);
+		if (acl) fields.push(`acl=${acl}`);
+
+		// Without an ACL the token is bound to the URL path, which is hashed but not part of the token
+		const hashSource = acl ? fields : [...fields, `url=${path}`];
+		const hmac = CryptoJS.HmacSHA256(hashSource.join('~'), CryptoJS.enc.Hex.parse(secret)).toString(CryptoJS.enc.Hex);
+		const token = `${fields.join('~')}~hmac=${hmac}`;
+
+		return {
+			token,
+			expires: String(expires),
+			hdnts: `${tokenName || 'hdnts'}=${token}`
+		};
+	}
+};
+
+// AWS CloudFront signed URL - canned policy, or custom policy with ACL (wildcard resource), start time or IP
+const cloudFront: TokenAlgorithm = {
+	id: 'cloudfront',
+	name: 'AWS CloudFront (RSA-SHA1)',
+	inputs: ['key_id', 'acl', 'start_offset'],
+	placeholders: ['expires', 'policy', 'signature', 'key_pair_id', 'cf_query'],
+	serverOnly: true,
+	generate: ({ secret, expires, start, ip, url, acl, keyId, signers }) => {
+		if (!signers.rsaSha1) {
+			throw new Error('CloudFront signed URLs can only be generated on the server');
+		}
+
+		const resource = acl ? (/^https?:\/\//.test(acl) ? acl : new URL(url).origin + acl) : url;
+		const condition: Record<string, any> = { DateLessThan: { 'AWS:EpochTime': expires } };
+		if (start !== null) condition.DateGreaterThan = { 'AWS:EpochTime': start };
+		if (ip) condition.IpAddress = { 'AWS:SourceIp': toCidr(ip) };
+
+		const policy = JSON.stringify({ Statement: [{ Resource: resource, Condition: condition }] });
+		const signature = toCloudFrontBase64(signers.rsaSha1(policy, secret));
+		const isCanned = !acl && start === null && !ip;
+		const encodedPolicy = toCloudFrontBase64(CryptoJS.enc.Base64.stringify(CryptoJS.enc.Utf8.parse(policy)));
+
+		return {
+			expires: String(expires),
+			policy: isCanned ? '' : encodedPolicy,
+			signature,
+			key_pair_id: keyId,
+			cf_query: isCanned
+				? `Expires=${expires}&Signature=${signature}&Key-Pair-Id=${keyId}`
+				: `Policy=${encodedPolicy}&Signature=${signature}&Key-Pair-Id=${keyId}`
+		};
+	}
+};
+
+// Wowza SecureToken v2 (SHA256), hashed over the application/stream path without the playlist file
+const wowza: TokenAlgorithm = {
+	id: 'wowza',
+	name: 'Wowza SecureToken (SHA256)',
+	inputs: ['acl', 'start_offset', 'token_name'],
+	placeholders: ['token', 'expires', 'starttime', 'wowza_query'],
+	generate: ({ secret, expires, start, ip, path, acl, tokenName }) => {
+		const prefix = tokenName || 'wowzatoken';
+		const streamPath = (acl || path.replace(/\/[^/]*$/, '')).replace(/^\/+/, '');
+
+		// The client IP comes first, the other parameters (including the shared secret) are sorted
+		const parameters = [secret, `${prefix}endtime=${expires}`];
+		if (start !== null) parameters.push(`${prefix}starttime=${start}`);
+		parameters.sort();
+		if (ip) parameters.unshift(ip);
+
+		const hash = CryptoJS.enc.Base64.stringify(CryptoJS.SHA256(`${streamPath}?${parameters.join('&')}`))
+			.replace(/\+/g, '-')
+			.replace(/\//g, '_');
+
+		const query = [
+			start !== null ? `${prefix}starttime=${start}` : '',
+			`${prefix}endtime=${expires}`,
+			`${prefix}hash=${hash}`
+		].filter(Boolean).join('&');
+
+		return {
+			token: hash,
+			expires: String(expires),
+			starttime: start !== null ? String(start) : '',
+			wowza_query: query
+		};
+	}
+};
+
+// Mux signed playback policy - separate audiences for the video and its thumbnails
+const muxJwt: TokenAlgorithm = {
+	id: 'mux_jwt',
+	name: 'Mux signed playback (JWT)',
+	inputs: ['key_id'],
+	placeholders: ['token', 'thumbnail_token'],
+	serverOnly: true,
+	generate: ({ secret, expires, keyId, subject, signers }) => {
+		const claims = { sub: subject, exp: expires, kid: keyId };
+		return {
+			token: createJwt({ ...claims, aud: 'v' }, keyId, secret, signers),
+			thumbnail_token: createJwt({ ...claims, aud: 't' }, keyId, secret, signers)
+		};
+	}
+};
+
+// Cloudflare Stream signed URL - the token replaces the video UID in the URL
+const cloudflareJwt: TokenAlgorithm = {
+	id: 'cloudflare_jwt',
+	name: 'Cloudflare Stream signed URL (JWT)',
+	inputs: ['key_id', 'start_offset'],
+	placeholders: ['token'],
+	serverOnly: true,
+	generate: ({ secret, expires, start, ip, keyId, subject, signers }) => {
+		const claims: Record<string, unknown> = { sub: subject, kid: keyId, exp: expires };
+		if (start !== null) claims.nbf = start;
+		if (ip) {
+			claims.accessRules = [
+				{ type: 'ip.src', ip: [toCidr(ip)], action: 'allow' },
+				{ type: 'any', action: 'block' }
+			];
+		}
+		return { token: createJwt(claims, keyId, secret, signers) };
+	}
+};
+
+const registry = new Map<string, TokenAlgorithm>();
+
+/**
+ * Register a token algorithm (replaces an algorithm with the same id)
+ */
+export function registerTokenAlgorithm(algorithm: TokenAlgorithm) {
+	registry.set(algorithm.id, algorithm);
+}
+
+[nginxMd5, bunny, akamai, cloudFront, wowza, muxJwt, cloudflareJwt].forEach(registerTokenAlgorithm);
+
+/**
+ * Get a token algorithm by id, falling back to nginx secure_link
+ */
+export function getTokenAlgorithm(id?: string | null): TokenAlgorithm {
+	return registry.get(id || DEFAULT_TOKEN_ALGORITHM) || (registry.get(DEFAULT_TOKEN_ALGORITHM) as TokenAlgorithm);
+}
+
+/**
+ * List all registered token algorithms
+ */
+export function getTokenAlgorithms(): TokenAlgorithm[] {
+	return Array.from(registry.values());
+}
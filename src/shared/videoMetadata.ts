@@ -0,0 +1,67 @@
+/**
+ * Video properties probed by the player that can be written to fields of the item
+ *
+ * Shared by the interface options (property choices) and the autofill of the interface.
+ */
+
+export type VideoMetadataProperty =
+	| 'duration'
+	| 'max_width'
+	| 'max_height'
+	| 'resolution'
+	| 'max_bitrate'
+	| 'video_codecs'
+	| 'audio_codecs'
+	| 'rendition_count'
+	| 'ladder'
+	| 'audio_languages'
+	| 'subtitle_languages'
+	| 'format'
+	| 'is_live';
+
+export const VIDEO_METADATA_PROPERTIES: Array<{ id: VideoMetadataProperty; name: string }> = [
+	{ id: 'duration', name: 'Duration (seconds)' },
+	{ id: 'max_width', name: 'Max Width' },
+	{ id: 'max_height', name: 'Max Height' },
+	{ id: 'resolution', name: 'Resolution (e.g. 1920x1080)' },
+	{ id: 'max_bitrate', name: 'Max Bitrate (bps)' },
+	{ id: 'video_codecs', name: 'Video Codecs' },
+	{ id: 'audio_codecs', name: 'Audio Codecs' },
+	{ id: 'rendition_count', name: 'Number of Renditions' },
+	{ id: 'ladder', name: 'Rendition Ladder' },
+	{ id: 'audio_languages', name: 'Audio Languages' },
+	{ id: 'subtitle_languages', name: 'Subtitle Languages' },
+	{ id: 'format', name: 'Format (hls, dash, native)' },
+	{ id: 'is_live', name: 'Live Stream' }
+];
+
+// Item field that receives a probed property
+export interface VideoMetadataMapping {
+	property: VideoMetadataProperty;
+	field: string;
+}
+
+// Rendition of the ladder as written to JSON fields
+export interface VideoMetadataRendition {
+	width?: number;
+	height?: number;
+	bitrate?: number;
+	videoCodec?: string;
+	audioCodec?: string;
+}
+
+/**
+ * Get the valid mappings of the "Metadata Fields" option, one field per property
+ */
+export function normalizeMetadataMappings(value: unknown): VideoMetadataMapping[] {
+	if (!Array.isArray(value)) return [];
+	const propertyIds = VIDEO_METADATA_PROPERTIES.map((property) => property.id);
+	return value.reduce<VideoMetadataMapping[]>((mappings, entry) => {
+		const property = entry?.property;
+		const field = typeof entry?.field === 'string' ? entry.field.trim() : '';
+		if (propertyIds.includes(property) && field && !mappings.some((mapping) => mapping.field === field)) {
+			mappings.push({ property, field });
+		}
+		return mappings;
+	}, []);
+}
@@ -67,3 +67,302 @@ export function getFileIdFromContext(attrs?: any): string | null {
 	return null;
 }
 
+
+/**
+ * Selectable rendition (quality level) of an adaptive stream
+ */
+export interface QualityLevel {
+	index: number;
+	width?: number;
+	height?: number;
+	bitrate?: number;
+	videoCodec?: string;
+	audioCodec?: string;
+	label: string;
+}
+
+/**
+ * Get the codecs parameter of a MIME type (e.g., 'video/mp4;codecs="avc1.64001f"' -> "avc1.64001f")
+ */
+export function getCodecsFromMimeType(mimeType: string | null | undefined): string | undefined {
+	if (!mimeType) return undefined;
+	const match = mimeType.match(/codecs\s*=\s*"?([^";]+)"?/i);
+	return match ? match[1].trim() : undefined;
+}
+
+/**
+ * Format bitrate in human-readable format (e.g., 5200000 -> "5.2 Mbps")
+ */
+export function formatBitrate(bitsPerSecond: number | undefined): string {
+	if (!bitsPerSecond) return '';
+	if (bitsPerSecond >= 1000 * 1000) {
+		return Math.round(bitsPerSecond / (1000 * 1000) * 10) / 10 + ' Mbps';
+	}
+	return Math.round(bitsPerSecond / 1000) + ' kbps';
+}
+
+/**
+ * Format quality height to display string (e.g., 720 -> "720p", 1080 -> "1080p")
+ */
+export function formatQuality(height: number | undefined): string | null {
+	if (!height) return null;
+
+	// Common resolutions
+	if (height >= 2160) return '4K';
+	if (height >= 1440) return '1440p';
+	if (height >= 1080) return '1080p';
+	if (height >= 720) return '720p';
+	if (height >= 540) return '540p';
+	if (height >= 480) return '480p';
+	if (height >= 360) return '360p';
+	if (height >= 240) return '240p';
+
+	// Fallback to height value
+	return `${height}p`;
+}
+
+/**
+ * Build the menu label for a rendition (e.g., "1080p · 1920x1080 · 5.2 Mbps")
+ */
+export function formatQualityLevelLabel(quality: string | null, width?: number, height?: number, bitrate?: number): string {
+	const parts: string[] = [];
+	if (quality) parts.push(quality);
+	if (width && height) parts.push(`${width}x${height}`);
+	const bitrateLabel = formatBitrate(bitrate);
+	if (bitrateLabel) parts.push(bitrateLabel);
+	return parts.join(' · ') || 'Unknown';
+}
+
+/**
+ * Sort renditions from highest to lowest quality for display in menus
+ */
+export function sortQualityLevels(levels: QualityLevel[]): QualityLevel[] {
+	return [...levels].sort((a, b) => ((b.height || 0) - (a.height || 0)) || ((b.bitrate || 0) - (a.bitrate || 0)));
+}
+
+/**
+ * Selectable text track (subtitles or captions) of a stream or sidecar file
+ */
+export interface SubtitleTrack {
+	index: number;
+	language?: string;
+	label: string;
+}
+
+/**
+ * Selectable audio track (e.g., another language) of a stream
+ */
+export interface AudioTrack {
+	index: number;
+	language?: string;
+	label: string;
+}
+
+/**
+ * Build the menu label for an audio or text track (e.g., "English (en)")
+ */
+export function formatTrackLabel(name: string | undefined, language: string | undefined, index: number): string {
+	if (name && language && !name.toLowerCase().includes(language.toLowerCase())) {
+		return `${name} (${language})`;
+	}
+	return name || (language ? language.toUpperCase() : `Track ${index + 1}`);
+}
+
+/**
+ * Get the language code from a subtitle file name (e.g., "episode-1.en.vtt" -> "en", "movie_de-AT.srt" -> "de-AT")
+ */
+export function getLanguageFromFilename(filename: string | undefined): string | undefined {
+	if (!filename) return undefined;
+	const match = filename.match(/[._-]([a-z]{2,3}(?:-[A-Za-z]{2,4})?)\.(vtt|srt)$/i);
+	return match ? match[1] : undefined;
+}
+
+/**
+ * Check if a subtitle file is SubRip (SRT) instead of WebVTT
+ */
+export function isSrtSubtitle(filename: string | undefined, content: string): boolean {
+	if (filename?.toLowerCase().endsWith('.srt')) return true;
+	return !content.replace(/^\uFEFF/, '').trimStart().startsWith('WEBVTT');
+}
+
+/**
+ * Convert SubRip (SRT) subtitles to WebVTT
+ */
+export function convertSrtToVtt(srt: string): string {
+	const cues = srt
+		.replace(/^\uFEFF/, '')
+		.replace(/\r\n?/g, '\n')
+		.trim()
+		// SRT uses a comma as decimal separator in timestamps (00:00:01,500 --> 00:00:03,000)
+		.replace(/(\d{2}:\d{2}:\d{2}),(\d{3})/g, '$1.$2');
+	return `WEBVTT\n\n${cues}\n`;
+}
+
+/**
+ * Cue of a WebVTT thumbnails track - a sprite tile (x/y/width/height, 0 width = whole image) shown from start to end
+ */
+export interface ThumbnailCue {
+	start: number;
+	end: number;
+	url: string;
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+}
+
+/**
+ * Parse a WebVTT timestamp (e.g., "01:02:03.500" or "02:03.500") to seconds
+ */
+export function parseVttTimestamp(timestamp: string): number {
+	const parts = timestamp.trim().split(':').map(Number);
+	return parts.reduce((seconds, part) => seconds * 60 + part, 0);
+}
+
+/**
+ * Parse a WebVTT thumbnails track, cue payloads are image URLs with an optional #xywh= sprite fragment
+ */
+export function parseThumbnailVtt(vtt: string, baseUrl: string): ThumbnailCue[] {
+	const blocks = vtt.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split(/\n{2,}/);
+	return blocks.reduce<ThumbnailCue[]>((cues, block) => {
+		const lines = block.trim().split('\n');
+		const timingIndex = lines.findIndex((line) => line.includes('-->'));
+		const payload = timingIndex >= 0 ? lines[timingIndex + 1]?.trim() : '';
+		if (!payload) return cues;
+
+		const [start, end] = lines[timingIndex].split('-->').map((timestamp) => parseVttTimestamp(timestamp.trim().split(/\s+/)[0]));
+		const [imageUrl, fragment] = payload.split('#');
+		const [x, y, width, height] = (fragment?.match(/xywh=(\d+),(\d+),(\d+),(\d+)/)?.slice(1) || [0, 0, 0, 0]).map(Number);
+		try {
+			cues.push({ start, end, url: new URL(imageUrl, baseUrl).href, x, y, width, height });
+		} catch (error) {
+			// Invalid image URL, skip the cue
+		}
+		return cues;
+	}, []);
+}
+
+/**
+ * Format a position in seconds as player time (e.g., "4:05", "1:02:03")
+ */
+export function formatTime(seconds: number): string {
+	if (!Number.isFinite(seconds) || seconds < 0) return '0:00';
+	const totalSeconds = Math.floor(seconds);
+	const hours = Math.floor(totalSeconds / 3600);
+	const minutes = Math.floor((totalSeconds % 3600) / 60);
+	const secs = String(totalSeconds % 60).padStart(2, '0');
+	return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+}
+
+/**
+ * Chapter or cue point of a video, stored in a JSON field of the item, e.g. [{ "start": 0, "title": "Intro" }]
+ */
+export interface Chapter {
+	start: number;
+	end?: number;
+	title: string;
+}
+
+/**
+ * Format a position in seconds as WebVTT timestamp (e.g., "00:01:02.500")
+ */
+export function formatVttTimestamp(seconds: number): string {
+	const totalMilliseconds = Math.max(0, Math.round((Number.isFinite(seconds) ? seconds : 0) * 1000));
+	const hours = Math.floor(totalMilliseconds / 3600000);
+	const minutes = Math.floor((totalMilliseconds % 3600000) / 60000);
+	const secs = Math.floor((totalMilliseconds % 60000) / 1000);
+	const milliseconds = totalMilliseconds % 1000;
+	return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:${String(secs).padStart(2, '0')}.${String(milliseconds).padStart(3, '0')}`;
+}
+
+/**
+ * Get valid chapters sorted by start from a JSON field value (array or JSON string)
+ */
+export function normalizeChapters(value: unknown): Chapter[] {
+	let entries = value;
+	if (typeof entries === 'string') {
+		try {
+			entries = JSON.parse(entries);
+		} catch (error) {
+			return [];
+		}
+	}
+	if (!Array.isArray(entries)) return [];
+
+	return entries
+		.filter((entry) => entry && Number.isFinite(Number(entry.start)) && Number(entry.start) >= 0)
+		.map((entry) => {
+			const chapter: Chapter = { start: Number(entry.start), title: String(entry.title ?? '') };
+			if (Number.isFinite(Number(entry.end)) && Number(entry.end) > chapter.start) {
+				chapter.end = Number(entry.end);
+			}
+			return chapter;
+		})
+		.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Parse a WebVTT chapters track, the cue payload is the chapter title
+ */
+export function parseChaptersVtt(vtt: string): Chapter[] {
+	const blocks = vtt.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split(/\n{2,}/);
+	const chapters = blocks.reduce<Chapter[]>((result, block) => {
+		const lines = block.trim().split('\n');
+		const timingIndex = lines.findIndex((line) => line.includes('-->'));
+		if (timingIndex < 0) return result;
+
+		const [start, end] = lines[timingIndex].split('-->').map((timestamp) => parseVttTimestamp(timestamp.trim().split(/\s+/)[0]));
+		if (!Number.isFinite(start)) return result;
+		const title = lines.slice(timingIndex + 1).join(' ').trim();
+		result.push(Number.isFinite(end) && end > start ? { start, end, title } : { start, title });
+		return result;
+	}, []);
+	return normalizeChapters(chapters);
+}
+
+/**
+ * Serialize chapters as WebVTT chapters track - chapters without an end last until the next chapter or the end of the video
+ */
+export function serializeChaptersVtt(chapters: Chapter[], duration: number): string {
+	const sorted = normalizeChapters(chapters);
+	const cues = sorted.map((chapter, index) => {
+		const nextStart = sorted[index + 1]?.start ?? (Number.isFinite(duration) && duration > chapter.start ? duration : chapter.start + 1);
+		const end = Math.min(chapter.end ?? nextStart, nextStart);
+		return `${index + 1}\n${formatVttTimestamp(chapter.start)} --> ${formatVttTimestamp(Math.max(end, chapter.start))}\n${chapter.title.replace(/\n+/g, ' ') || `Chapter ${index + 1}`}`;
+	});
+	return ['WEBVTT', ...cues].join('\n\n') + '\n';
+}
+
+/**
+ * Entry of the captions menu - an in-manifest ("manifest:<index>") or sidecar ("sidecar:<index>") text track
+ */
+export interface CaptionOption {
+	value: string;
+	label: string;
+}
+
+// ISO 639-2 codes used in manifests mapped to the ISO 639-1 codes of the Directus user languages
+const ISO_639_2_TO_1: Record<string, string> = {
+	ara: 'ar', chi: 'zh', zho: 'zh', cze: 'cs', ces: 'cs', dan: 'da', dut: 'nl', nld: 'nl', eng: 'en',
+	fin: 'fi', fre: 'fr', fra: 'fr', ger: 'de', deu: 'de', gre: 'el', ell: 'el', heb: 'he', hin: 'hi',
+	hun: 'hu', ita: 'it', jpn: 'ja', kor: 'ko', nor: 'no', pol: 'pl', por: 'pt', rum: 'ro', ron: 'ro',
+	rus: 'ru', spa: 'es', swe: 'sv', tur: 'tr', ukr: 'uk'
+};
+
+/**
+ * Get the primary language subtag as ISO 639-1 code where possible (e.g., "en-US" -> "en", "ger" -> "de")
+ */
+export function normalizeLanguage(language: string | null | undefined): string {
+	const primary = (language || '').split(/[-_]/)[0].toLowerCase();
+	return ISO_639_2_TO_1[primary] || primary;
+}
+
+/**
+ * Find the track matching a preferred language, -1 if none matches
+ */
+export function findTrackByLanguage(tracks: Array<{ index: number; language?: string }>, language: string | null | undefined): number {
+	const preferred = normalizeLanguage(language);
+	if (!preferred) return -1;
+	const track = tracks.find((track) => normalizeLanguage(track.language) === preferred);
+	return track ? track.index : -1;
+}